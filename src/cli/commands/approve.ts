@@ -0,0 +1,63 @@
+import chalk from 'chalk';
+import { loadStack, updateStackPlanStatus } from '../../core/stack-manager.js';
+import { approvePlan, loadStackStatus } from '../../storage/status-store.js';
+import { runCommand, type RunOptions } from './run.js';
+
+interface ApproveOptions
+  extends Omit<RunOptions, 'dryRun' | 'from' | 'reset' | 'watch'> {
+  run?: boolean;
+}
+
+/**
+ * Approve a gated plan, then continue the stack's run unless `--no-run`
+ */
+export const approveCommand = async ({
+  stackName,
+  planId,
+  options,
+}: {
+  stackName: string;
+  planId: string;
+  options: ApproveOptions;
+}): Promise<void> => {
+  const stack = await loadStack({ stackName });
+
+  if (!stack) {
+    console.log(chalk.red(`Stack '${stackName}' not found.`));
+    return;
+  }
+
+  if (!stack.plans.some((p) => p.planId === planId)) {
+    console.log(chalk.red(`Plan '${planId}' not found in stack.`));
+    return;
+  }
+
+  const planIds = stack.plans.map((p) => p.planId);
+  const status = await loadStackStatus({ stackName, planIds });
+  const executionStatus = status.planStatuses[planId]?.executionStatus;
+
+  if (executionStatus === 'completed' || executionStatus === 'running') {
+    console.log(chalk.yellow(`Plan '${planId}' is already ${executionStatus}.`));
+    return;
+  }
+
+  await approvePlan({ stackName, planIds, planId });
+
+  await updateStackPlanStatus({
+    stackName,
+    planId,
+    updates: { executionStatus: 'pending' },
+  });
+
+  console.log(chalk.green(`✓ Approved plan '${planId}'`));
+
+  const { run = true, ...runOptions } = options;
+
+  if (!run) {
+    console.log(`Continue the run with: ${chalk.cyan(`cc run ${stackName}`)}`);
+    return;
+  }
+
+  console.log();
+  await runCommand({ stackName, options: runOptions });
+};
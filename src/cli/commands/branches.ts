@@ -0,0 +1,170 @@
+import chalk from 'chalk';
+import { loadStack } from '../../core/stack-manager.js';
+import { getExecutionOrder } from '../../core/dependency-graph.js';
+import {
+  branchExists,
+  countCommitsAhead,
+  getBranchHead,
+  isGitRepository,
+} from '../../core/git.js';
+import { resolveStackRoot } from '../../core/working-directory.js';
+import { loadStackStatus } from '../../storage/status-store.js';
+import type { ExecutionStatus, PlanExecutionStatus } from '../../types/index.js';
+
+const STATUS_COLORS: Record<ExecutionStatus, (text: string) => string> = {
+  pending: chalk.gray,
+  running: chalk.yellow,
+  completed: chalk.green,
+  failed: chalk.red,
+  skipped: chalk.dim,
+  interrupted: chalk.magenta,
+  stale: chalk.cyan,
+  awaiting_approval: chalk.blue,
+};
+
+interface BranchNode {
+  branchName: string;
+  planStatus: PlanExecutionStatus;
+  children: BranchNode[];
+}
+
+/**
+ * Show the git branch created for each plan, stacked on its base branch
+ */
+export const branchesCommand = async ({
+  stackName,
+}: {
+  stackName: string;
+}): Promise<void> => {
+  const stack = await loadStack({ stackName });
+
+  if (!stack) {
+    console.log(chalk.red(`Stack '${stackName}' not found.`));
+    return;
+  }
+
+  // Branches live in the repository the stack runs in
+  const cwd = resolveStackRoot({ stack });
+
+  if (!(await isGitRepository({ cwd }))) {
+    console.log(chalk.red(`'${cwd}' is not inside a git repository.`));
+    return;
+  }
+
+  const planIds = stack.plans.map((p) => p.planId);
+  const status = await loadStackStatus({ stackName, planIds });
+  const { sortedPlanIds } = getExecutionOrder({ stackPlans: stack.plans });
+
+  const branchedStatuses = sortedPlanIds
+    .map((planId) => status.planStatuses[planId])
+    .filter(
+      (planStatus): planStatus is PlanExecutionStatus =>
+        planStatus?.gitBranch !== null && planStatus?.gitBranch !== undefined
+    );
+
+  console.log(chalk.bold(`Stack: ${stackName}`));
+  console.log();
+
+  if (branchedStatuses.length === 0) {
+    console.log(chalk.gray('No plan branches yet.'));
+    console.log();
+    console.log(`Create them with: ${chalk.cyan(`cc run ${stackName} --git`)}`);
+    return;
+  }
+
+  // Group plan branches under the branch they were based on
+  const nodesByBranch = new Map<string, BranchNode>(
+    branchedStatuses.map((planStatus) => [
+      planStatus.gitBranch as string,
+      { branchName: planStatus.gitBranch as string, planStatus, children: [] },
+    ])
+  );
+  const rootsByBaseBranch = new Map<string, BranchNode[]>();
+
+  nodesByBranch.forEach((node) => {
+    const baseBranch = node.planStatus.gitBaseBranch ?? '';
+    const parent = nodesByBranch.get(baseBranch);
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      rootsByBaseBranch.set(baseBranch, [
+        ...(rootsByBaseBranch.get(baseBranch) ?? []),
+        node,
+      ]);
+    }
+  });
+
+  for (const [baseBranch, roots] of rootsByBaseBranch) {
+    console.log(chalk.bold(baseBranch || '(unknown base)'));
+    const lines = await renderBranchTree({
+      nodes: roots,
+      parentBranch: baseBranch,
+      prefix: '',
+      cwd,
+    });
+    lines.forEach((line) => console.log(line));
+    console.log();
+  }
+
+  const unbranched = sortedPlanIds.filter(
+    (planId) => !status.planStatuses[planId]?.gitBranch
+  );
+  if (unbranched.length > 0) {
+    console.log(chalk.dim(`No branch yet: ${unbranched.join(', ')}`));
+  }
+};
+
+/**
+ * Render branch nodes with their latest commit and commits ahead of the parent
+ */
+const renderBranchTree = async ({
+  nodes,
+  parentBranch,
+  prefix,
+  cwd,
+}: {
+  nodes: BranchNode[];
+  parentBranch: string;
+  prefix: string;
+  cwd: string;
+}): Promise<string[]> => {
+  const lines: string[] = [];
+
+  for (const [index, node] of nodes.entries()) {
+    const isLast = index === nodes.length - 1;
+    const connector = isLast ? '└─' : '├─';
+    const colorFn = STATUS_COLORS[node.planStatus.executionStatus];
+
+    const exists = await branchExists({ branchName: node.branchName, cwd });
+    const head = exists
+      ? await getBranchHead({ branchName: node.branchName, cwd })
+      : null;
+    const ahead =
+      exists && parentBranch
+        ? await countCommitsAhead({
+            branchName: node.branchName,
+            baseRef: parentBranch,
+            cwd,
+          })
+        : 0;
+
+    const details = head
+      ? `${chalk.yellow(head.shortHash)} ${head.subject}${ahead > 0 ? chalk.dim(` (+${ahead})`) : ''}`
+      : chalk.red('(branch missing)');
+
+    lines.push(
+      `${prefix}${connector} ${colorFn(node.branchName)} ${chalk.dim(`[${node.planStatus.executionStatus}]`)} ${details}`
+    );
+
+    const childLines = await renderBranchTree({
+      nodes: node.children,
+      parentBranch: node.branchName,
+      prefix: prefix + (isLast ? '   ' : '│  '),
+      cwd,
+    });
+    lines.push(...childLines);
+  }
+
+  return lines;
+};
@@ -0,0 +1,103 @@
+import chalk from 'chalk';
+import {
+  loadStack,
+  getStackSetting,
+  getStackSettingKeys,
+  updateStackSetting,
+} from '../../core/stack-manager.js';
+import type { Stack } from '../../types/index.js';
+
+interface ConfigOptions {
+  unset?: boolean;
+}
+
+/**
+ * Parse a setting value from the command line, treating it as JSON when it
+ * looks like JSON (numbers, booleans, arrays, objects) and as a string otherwise
+ */
+const parseSettingValue = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const formatSettingValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+export const configCommand = async ({
+  stackName,
+  key,
+  value,
+  options,
+}: {
+  stackName: string;
+  key?: string;
+  value?: string;
+  options: ConfigOptions;
+}): Promise<void> => {
+  const stack = await loadStack({ stackName });
+
+  if (!stack) {
+    console.log(chalk.red(`Stack '${stackName}' not found.`));
+    return;
+  }
+
+  // Show all settings
+  if (!key) {
+    const settings = stack.settings ?? {};
+
+    console.log(chalk.bold(`Settings for stack: ${stackName}`));
+    console.log();
+
+    if (Object.keys(settings).length === 0) {
+      console.log(chalk.gray('No settings configured.'));
+    } else {
+      console.log(JSON.stringify(settings, null, 2));
+    }
+
+    console.log();
+    console.log(chalk.dim(`Available settings: ${getStackSettingKeys().join(', ')}`));
+    return;
+  }
+
+  // Show a single setting
+  if (value === undefined && !options.unset) {
+    const current = getStackSetting({ stack, key });
+
+    if (current === undefined) {
+      console.log(chalk.gray(`'${key}' is not set.`));
+    } else {
+      console.log(formatSettingValue(current));
+    }
+    return;
+  }
+
+  const parsedValue = options.unset ? undefined : parseSettingValue(value ?? '');
+
+  let updatedStack: Stack;
+
+  try {
+    updatedStack = await updateStackSetting({
+      stackName,
+      key,
+      value: parsedValue,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    console.log(chalk.red(`Failed to update settings: ${errorMessage}`));
+    return;
+  }
+
+  if (parsedValue === undefined) {
+    console.log(chalk.green(`✓ Unset '${key}'`));
+  } else {
+    // Show the value as stored, e.g. a `cwd` made absolute
+    const storedValue = getStackSetting({ stack: updatedStack, key });
+    console.log(
+      chalk.green(`✓ Set '${key}' to ${formatSettingValue(storedValue)}`)
+    );
+  }
+};
@@ -0,0 +1,213 @@
+import chalk from 'chalk';
+import { loadStack } from '../../core/stack-manager.js';
+import {
+  listRunRecords,
+  loadRunRecord,
+} from '../../storage/history-store.js';
+import type {
+  ExecutionStatus,
+  RunRecord,
+  RunRecordOptions,
+  RunStatus,
+} from '../../types/index.js';
+
+const RUN_STATUS_COLORS: Record<RunStatus, (text: string) => string> = {
+  running: chalk.yellow,
+  completed: chalk.green,
+  failed: chalk.red,
+  interrupted: chalk.magenta,
+  stopped: chalk.yellow,
+  awaiting_approval: chalk.blue,
+};
+
+const RUN_STATUS_WIDTH = Math.max(
+  ...Object.keys(RUN_STATUS_COLORS).map((runStatus) => runStatus.length)
+);
+
+const PLAN_STATUS_ICONS: Record<ExecutionStatus, string> = {
+  pending: chalk.gray('◯'),
+  running: chalk.yellow('◉'),
+  completed: chalk.green('✓'),
+  failed: chalk.red('✗'),
+  skipped: chalk.dim('○'),
+  interrupted: chalk.magenta('⊘'),
+  stale: chalk.cyan('◐'),
+  awaiting_approval: chalk.blue('⏸'),
+};
+
+/**
+ * List a stack's recorded runs, or show one run in detail
+ */
+export const historyCommand = async ({
+  stackName,
+  runId,
+}: {
+  stackName: string;
+  runId?: string;
+}): Promise<void> => {
+  const stack = await loadStack({ stackName });
+
+  if (!stack) {
+    console.log(chalk.red(`Stack '${stackName}' not found.`));
+    return;
+  }
+
+  if (runId) {
+    await showRun({ stackName, runId });
+  } else {
+    await listRuns({ stackName });
+  }
+};
+
+const listRuns = async ({ stackName }: { stackName: string }): Promise<void> => {
+  const records = await listRunRecords({ stackName });
+
+  if (records.length === 0) {
+    console.log(chalk.gray(`No runs recorded for stack '${stackName}'.`));
+    return;
+  }
+
+  console.log(chalk.bold(`Run history: ${stackName}`));
+  console.log();
+
+  for (const record of records) {
+    const colorFn = RUN_STATUS_COLORS[record.runStatus];
+    const count = (status: ExecutionStatus): number =>
+      record.planResults.filter((r) => r.executionStatus === status).length;
+    const cost = sumCost(record);
+
+    console.log(
+      `${chalk.cyan(record.runId)}  ${colorFn(record.runStatus.padEnd(RUN_STATUS_WIDTH))}` +
+        chalk.dim(
+          `  ${new Date(record.startedAt).toLocaleString()}  ${formatRunDuration(record)}`
+        )
+    );
+    console.log(
+      `  ${chalk.green(`✓ ${count('completed')}`)} ${chalk.red(`✗ ${count('failed')}`)} ${chalk.dim(`○ ${count('skipped')}`)}` +
+        (count('interrupted') > 0
+          ? ` ${chalk.magenta(`⊘ ${count('interrupted')}`)}`
+          : '') +
+        (cost !== null ? chalk.dim(`  ${formatCost(cost)}`) : '')
+    );
+  }
+
+  console.log();
+  console.log(`Show a run with: ${chalk.cyan(`cc history ${stackName} <run-id>`)}`);
+};
+
+const showRun = async ({
+  stackName,
+  runId,
+}: {
+  stackName: string;
+  runId: string;
+}): Promise<void> => {
+  const record = await loadRunRecord({ stackName, runId });
+
+  if (!record) {
+    console.log(chalk.red(`Run '${runId}' not found for stack '${stackName}'.`));
+    return;
+  }
+
+  const colorFn = RUN_STATUS_COLORS[record.runStatus];
+  const cost = sumCost(record);
+
+  console.log(`${chalk.bold(`Run: ${record.runId}`)} ${colorFn(record.runStatus)}`);
+  console.log(chalk.dim(`Started: ${new Date(record.startedAt).toLocaleString()}`));
+  if (record.endedAt) {
+    console.log(chalk.dim(`Ended:   ${new Date(record.endedAt).toLocaleString()}`));
+  }
+  console.log(chalk.dim(`Duration: ${formatRunDuration(record)}`));
+  if (cost !== null) {
+    console.log(chalk.dim(`Cost: ${formatCost(cost)}`));
+  }
+
+  const options = describeOptions(record.options);
+  if (options.length > 0) {
+    console.log(chalk.dim(`Options: ${options.join(', ')}`));
+  }
+
+  console.log();
+
+  if (record.planResults.length === 0) {
+    console.log(chalk.gray('No plans finished in this run.'));
+    return;
+  }
+
+  for (const result of record.planResults) {
+    const details = [
+      formatDuration(result.durationMs),
+      ...(result.attempts > 1 ? [`${result.attempts} attempts`] : []),
+      ...(result.costUsd !== null ? [formatCost(result.costUsd)] : []),
+    ];
+
+    console.log(
+      `${PLAN_STATUS_ICONS[result.executionStatus]} ${result.planId} ${chalk.dim(`(${details.join(', ')})`)}`
+    );
+
+    if (result.errorMessage && result.executionStatus !== 'completed') {
+      const errorColor =
+        result.executionStatus === 'failed' ? chalk.red : chalk.dim;
+      console.log(errorColor(`    ${result.errorMessage}`));
+    }
+  }
+
+  console.log();
+  console.log(
+    `View output with: ${chalk.cyan(`cc logs ${stackName} <plan> --run ${record.runId}`)}`
+  );
+};
+
+/**
+ * List the options a run was started with that differ from the defaults
+ */
+const describeOptions = (options: RunRecordOptions): string[] => [
+  ...(options.concurrency > 1 ? [`concurrency ${options.concurrency}`] : []),
+  ...(options.timeoutMs !== null
+    ? [`timeout ${formatDuration(options.timeoutMs)}`]
+    : []),
+  ...(options.retries > 0 ? [`retries ${options.retries}`] : []),
+  ...(options.worktrees ? ['worktrees'] : options.git ? ['git'] : []),
+  ...(options.failurePolicy === 'fail-fast' ? ['fail-fast'] : []),
+  ...(options.fromPlanId ? [`from ${options.fromPlanId}`] : []),
+  ...(options.selectedPlanIds
+    ? [`plans ${options.selectedPlanIds.join(' ')}`]
+    : []),
+  ...(options.resumePlanId ? [`retry ${options.resumePlanId}`] : []),
+  ...(options.confirmEach ? ['confirm each'] : []),
+  ...(options.maxDurationMs !== null
+    ? [`max duration ${formatDuration(options.maxDurationMs)}`]
+    : []),
+  ...(options.maxCostUsd !== null
+    ? [`max cost ${formatCost(options.maxCostUsd)}`]
+    : []),
+];
+
+/**
+ * Total Claude cost of a run, or null if no plan reported one
+ */
+const sumCost = (record: RunRecord): number | null => {
+  const costs = record.planResults
+    .map((r) => r.costUsd)
+    .filter((cost): cost is number => cost !== null);
+
+  return costs.length > 0 ? costs.reduce((total, cost) => total + cost, 0) : null;
+};
+
+const formatRunDuration = (record: RunRecord): string =>
+  record.endedAt
+    ? formatDuration(
+        new Date(record.endedAt).getTime() - new Date(record.startedAt).getTime()
+      )
+    : 'in progress';
+
+const formatCost = (usd: number): string =>
+  `$${usd.toFixed(usd > 0 && usd < 1 ? 4 : 2)}`;
+
+const formatDuration = (ms: number): string => {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return `${minutes}m ${seconds}s`;
+};
@@ -3,3 +3,10 @@ export { lsCommand } from './ls.js';
 export { createCommand } from './create.js';
 export { statusCommand } from './status.js';
 export { runCommand } from './run.js';
+export { logsCommand } from './logs.js';
+export { configCommand } from './config.js';
+export { branchesCommand } from './branches.js';
+export { unlockCommand } from './unlock.js';
+export { retryCommand } from './retry.js';
+export { approveCommand } from './approve.js';
+export { historyCommand } from './history.js';
@@ -0,0 +1,284 @@
+import chalk from 'chalk';
+import { loadStack } from '../../core/stack-manager.js';
+import { getExecutionOrder } from '../../core/dependency-graph.js';
+import {
+  isRunLockStale,
+  loadStackStatus,
+} from '../../storage/status-store.js';
+import {
+  getLogRunId,
+  getPlanLogPath,
+  listLogRuns,
+  listRunLogPlanIds,
+  readPlanLog,
+  readPlanLogFrom,
+} from '../../storage/log-store.js';
+
+interface LogsOptions {
+  tail?: string;
+  follow?: boolean;
+  run?: string;
+}
+
+const FOLLOW_POLL_INTERVAL_MS = 500;
+
+export const logsCommand = async ({
+  stackName,
+  planId,
+  options,
+}: {
+  stackName: string;
+  planId?: string;
+  options: LogsOptions;
+}): Promise<void> => {
+  const stack = await loadStack({ stackName });
+
+  if (!stack) {
+    console.log(chalk.red(`Stack '${stackName}' not found.`));
+    return;
+  }
+
+  if (planId && !stack.plans.some((p) => p.planId === planId)) {
+    console.log(chalk.red(`Plan '${planId}' not found in stack.`));
+    return;
+  }
+
+  const tailLines = options.tail ? Number(options.tail) : null;
+  if (tailLines !== null && (!Number.isInteger(tailLines) || tailLines < 0)) {
+    console.log(
+      chalk.red(`Invalid tail '${options.tail}'. Use a non-negative integer.`)
+    );
+    return;
+  }
+
+  const runIds = await listLogRuns({ stackName });
+  // Following during a run waits for that run's output, even from plans
+  // that haven't started yet
+  const activeRunId = options.follow
+    ? await getActiveRunId({
+        stackName,
+        planIds: stack.plans.map((p) => p.planId),
+      })
+    : null;
+  const runId =
+    options.run ??
+    activeRunId ??
+    (planId ? await getLastLoggedRunId({ stackName, planId, runIds }) : null) ??
+    runIds[0];
+
+  if (!runId) {
+    console.log(chalk.gray(`No logs found for stack '${stackName}'.`));
+    return;
+  }
+
+  if (!runIds.includes(runId) && runId !== activeRunId) {
+    console.log(chalk.red(`Run '${runId}' not found for stack '${stackName}'.`));
+    console.log(chalk.dim('Available runs:'));
+    runIds.forEach((id) => console.log(chalk.dim(`  ${id}`)));
+    return;
+  }
+
+  const planIds = planId
+    ? [planId]
+    : await getLoggedPlanIds({ stackName, runId });
+
+  console.log(chalk.dim(`Run: ${runId}`));
+
+  if (planIds.length === 0) {
+    console.log(chalk.gray('No plan output recorded for this run yet.'));
+  }
+
+  const showHeaders = !planId;
+  const offsets = new Map<string, number>();
+
+  for (const id of planIds) {
+    const logPath = getPlanLogPath({ stackName, runId, planId: id });
+    const content = await readPlanLog({ logPath });
+
+    if (content === null) {
+      console.log(
+        chalk.gray(
+          runId === activeRunId
+            ? `Waiting for plan '${id}' to start...`
+            : `No log for plan '${id}' in this run.`
+        )
+      );
+      continue;
+    }
+
+    if (showHeaders) {
+      console.log();
+      console.log(chalk.bold.cyan(`==> ${id} <==`));
+    }
+
+    process.stdout.write(tailContent({ content, tailLines }));
+    offsets.set(id, Buffer.byteLength(content));
+  }
+
+  if (options.follow) {
+    await followLogs({ stackName, runId, planId, offsets, showHeaders });
+  }
+};
+
+/**
+ * The run currently holding the stack's lock, or null if none is
+ */
+const getActiveRunId = async ({
+  stackName,
+  planIds,
+}: {
+  stackName: string;
+  planIds: string[];
+}): Promise<string | null> => {
+  const status = await loadStackStatus({ stackName, planIds });
+
+  return status.isRunning && !isRunLockStale({ status })
+    ? (status.lastRunId ?? null)
+    : null;
+};
+
+/**
+ * The run a plan last wrote a log in, as recorded in its status. A plan that
+ * didn't run in the latest run still shows its most recent output.
+ */
+const getLastLoggedRunId = async ({
+  stackName,
+  planId,
+  runIds,
+}: {
+  stackName: string;
+  planId: string;
+  runIds: string[];
+}): Promise<string | null> => {
+  const stack = await loadStack({ stackName });
+  const planIds = stack?.plans.map((p) => p.planId) ?? [];
+  const status = await loadStackStatus({ stackName, planIds });
+  const logPath = status.planStatuses[planId]?.logPath;
+
+  if (!logPath) return null;
+
+  const runId = getLogRunId({ logPath });
+  return runIds.includes(runId) ? runId : null;
+};
+
+/**
+ * List plans with a log in the run, in execution order
+ */
+const getLoggedPlanIds = async ({
+  stackName,
+  runId,
+}: {
+  stackName: string;
+  runId: string;
+}): Promise<string[]> => {
+  const stack = await loadStack({ stackName });
+  const loggedPlanIds = new Set(await listRunLogPlanIds({ stackName, runId }));
+  const { sortedPlanIds } = getExecutionOrder({
+    stackPlans: stack?.plans ?? [],
+  });
+
+  return [
+    ...sortedPlanIds.filter((id) => loggedPlanIds.has(id)),
+    ...[...loggedPlanIds].filter((id) => !sortedPlanIds.includes(id)),
+  ];
+};
+
+/**
+ * Return the last `tailLines` lines of a log, or all of it
+ */
+const tailContent = ({
+  content,
+  tailLines,
+}: {
+  content: string;
+  tailLines: number | null;
+}): string => {
+  if (tailLines === null) {
+    return content;
+  }
+
+  const lines = content.endsWith('\n')
+    ? content.slice(0, -1).split('\n')
+    : content.split('\n');
+  const tail = tailLines === 0 ? [] : lines.slice(-tailLines);
+
+  return tail.length > 0 ? `${tail.join('\n')}\n` : '';
+};
+
+/**
+ * Keep printing new log output until the run finishes
+ */
+const followLogs = async ({
+  stackName,
+  runId,
+  planId,
+  offsets,
+  showHeaders,
+}: {
+  stackName: string;
+  runId: string;
+  planId?: string;
+  offsets: Map<string, number>;
+  showHeaders: boolean;
+}): Promise<void> => {
+  // The initial dump printed logs in the same order offsets were recorded
+  let lastPrintedPlanId: string | null = [...offsets.keys()].pop() ?? null;
+
+  const printNewOutput = async (): Promise<void> => {
+    // New plans may start writing logs while we follow the whole run
+    const planIds = planId
+      ? [planId]
+      : await getLoggedPlanIds({ stackName, runId });
+
+    for (const id of planIds) {
+      const logPath = getPlanLogPath({ stackName, runId, planId: id });
+      const { text, offset } = await readPlanLogFrom({
+        logPath,
+        offset: offsets.get(id) ?? 0,
+      });
+
+      if (!text) continue;
+
+      if (showHeaders && lastPrintedPlanId !== id) {
+        console.log();
+        console.log(chalk.bold.cyan(`==> ${id} <==`));
+      }
+
+      process.stdout.write(text);
+      offsets.set(id, offset);
+      lastPrintedPlanId = id;
+    }
+  };
+
+  const isRunActive = async (): Promise<boolean> => {
+    const stack = await loadStack({ stackName });
+    const planIds = stack?.plans.map((p) => p.planId) ?? [];
+    const status = await loadStackStatus({ stackName, planIds });
+
+    if (
+      !status.isRunning ||
+      status.lastRunId !== runId ||
+      isRunLockStale({ status })
+    ) {
+      return false;
+    }
+
+    if (!planId) return true;
+
+    // A plan that hasn't logged anything in this run may still start
+    const planStatus = status.planStatuses[planId];
+    return (
+      !planStatus?.logPath ||
+      getLogRunId({ logPath: planStatus.logPath }) !== runId ||
+      planStatus.executionStatus === 'running'
+    );
+  };
+
+  while (await isRunActive()) {
+    await printNewOutput();
+    await new Promise((resolve) => setTimeout(resolve, FOLLOW_POLL_INTERVAL_MS));
+  }
+
+  // Pick up anything written between the last poll and the run finishing
+  await printNewOutput();
+};
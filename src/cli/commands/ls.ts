@@ -1,8 +1,19 @@
 import chalk from 'chalk';
+import { isAbsolute, relative } from 'path';
 import { listStacks, loadStack } from '../../core/stack-manager.js';
-import { loadStackStatus } from '../../storage/status-store.js';
+import {
+  isRunLockStale,
+  loadStackStatus,
+} from '../../storage/status-store.js';
 import { loadPlanById } from '../../core/plan-parser.js';
+import { markStalePlans } from '../../core/stale-plans.js';
+import { isDefaultCondition } from '../../core/conditions.js';
 import { getExecutionOrder } from '../../core/dependency-graph.js';
+import {
+  checkWorkingDirectory,
+  resolvePlanCwd,
+  resolveStackRoot,
+} from '../../core/working-directory.js';
 import type { StackPlan, ExecutionStatus } from '../../types/index.js';
 
 const STATUS_ICONS: Record<ExecutionStatus, string> = {
@@ -11,6 +22,9 @@ const STATUS_ICONS: Record<ExecutionStatus, string> = {
   completed: '●',
   failed: '✗',
   skipped: '○',
+  interrupted: '⊘',
+  stale: '◐',
+  awaiting_approval: '⏸',
 };
 
 const STATUS_COLORS: Record<ExecutionStatus, (text: string) => string> = {
@@ -19,19 +33,52 @@ const STATUS_COLORS: Record<ExecutionStatus, (text: string) => string> = {
   completed: chalk.green,
   failed: chalk.red,
   skipped: chalk.dim,
+  interrupted: chalk.magenta,
+  stale: chalk.cyan,
+  awaiting_approval: chalk.blue,
 };
 
 interface TreeNode {
   planId: string;
   title: string;
   executionStatus: ExecutionStatus;
+  // The plan's `when` condition, if it is not the default
+  condition: string | null;
+  cwd: PlanCwd | null;
   children: TreeNode[];
   depth: number;
 }
 
+// A plan's working directory, shown when it isn't the stack's root
+interface PlanCwd {
+  path: string;
+  missing: boolean;
+}
+
 const MAX_TREE_DEPTH = 10;
 const MAX_PLANS_FOR_TREE = 30;
 
+/**
+ * Label a plan's working directory, relative to the stack's root when inside it
+ */
+const formatCwdLabel = ({
+  cwd,
+  stackRoot,
+}: {
+  cwd: PlanCwd;
+  stackRoot: string;
+}): string => {
+  const relativePath = relative(stackRoot, cwd.path);
+  const path =
+    relativePath.startsWith('..') || isAbsolute(relativePath)
+      ? cwd.path
+      : relativePath;
+
+  return cwd.missing
+    ? chalk.red(` [cwd: ${path} (missing)]`)
+    : chalk.dim(` [cwd: ${path}]`);
+};
+
 /**
  * Build a tree structure from stack plans with depth limiting
  */
@@ -39,11 +86,15 @@ const buildTree = ({
   stackPlans,
   rootPlanIds,
   planTitles,
+  planConditions,
+  planCwds,
   statuses,
 }: {
   stackPlans: StackPlan[];
   rootPlanIds: string[];
   planTitles: Map<string, string>;
+  planConditions: Map<string, string>;
+  planCwds: Map<string, PlanCwd>;
   statuses: Record<string, ExecutionStatus>;
 }): TreeNode[] => {
   const planMap = new Map(stackPlans.map((p) => [p.planId, p]));
@@ -85,6 +136,8 @@ const buildTree = ({
       planId,
       title: planTitles.get(planId) ?? planId,
       executionStatus: statuses[planId] ?? 'pending',
+      condition: planConditions.get(planId) ?? null,
+      cwd: planCwds.get(planId) ?? null,
       children,
       depth,
     };
@@ -109,9 +162,11 @@ const buildTree = ({
  */
 const renderTree = ({
   nodes,
+  stackRoot,
   prefix = '',
 }: {
   nodes: TreeNode[];
+  stackRoot: string;
   prefix?: string;
 }): string[] => {
   const lines: string[] = [];
@@ -121,11 +176,19 @@ const renderTree = ({
     const icon = STATUS_ICONS[node.executionStatus];
     const colorFn = STATUS_COLORS[node.executionStatus];
 
-    const connector = prefix === '' ? '' : isNodeLast ? '└─' : '├─';
+    // Edges into a conditional plan are dotted
+    const edge = node.condition ? '┄' : '─';
+    const connector = prefix === '' ? '' : isNodeLast ? `└${edge}` : `├${edge}`;
     const hasChildren = node.children.length > 0;
     const nodePrefix = hasChildren ? '┬─' : '── ';
-
-    const line = `${prefix}${connector}${colorFn(icon)}${nodePrefix}${node.planId}`;
+    const conditionLabel = node.condition
+      ? chalk.yellow(` [when: ${node.condition}]`)
+      : '';
+    const cwdLabel = node.cwd
+      ? formatCwdLabel({ cwd: node.cwd, stackRoot })
+      : '';
+
+    const line = `${prefix}${connector}${colorFn(icon)}${nodePrefix}${node.planId}${conditionLabel}${cwdLabel}`;
     lines.push(line);
 
     if (hasChildren) {
@@ -133,6 +196,7 @@ const renderTree = ({
         prefix + (prefix === '' ? '' : isNodeLast ? '  ' : '│ ');
       const childLines = renderTree({
         nodes: node.children,
+        stackRoot,
         prefix: childPrefix + '│ ',
       });
       lines.push(...childLines);
@@ -147,13 +211,32 @@ const renderTree = ({
  */
 const renderFlatList = ({
   stackPlans,
+  stackRoot,
   planTitles,
+  planConditions,
+  planCwds,
   statuses,
 }: {
   stackPlans: StackPlan[];
+  stackRoot: string;
   planTitles: Map<string, string>;
+  planConditions: Map<string, string>;
+  planCwds: Map<string, PlanCwd>;
   statuses: Record<string, ExecutionStatus>;
 }): string[] => {
+  const formatDetails = (planId: string, deps: number): string => {
+    const condition = planConditions.get(planId);
+    const cwd = planCwds.get(planId);
+    const details = [
+      ...(deps > 0 ? [`${deps} deps`] : []),
+      ...(condition ? [`when: ${condition}`] : []),
+    ];
+    return (
+      (details.length > 0 ? chalk.dim(` (${details.join(', ')})`) : '') +
+      (cwd ? formatCwdLabel({ cwd, stackRoot }) : '')
+    );
+  };
+
   const { sortedPlanIds, hasCycle } = getExecutionOrder({ stackPlans });
 
   const lines: string[] = [];
@@ -169,7 +252,7 @@ const renderFlatList = ({
       const deps = plan.dependsOnPlanIds.length;
 
       lines.push(
-        `${chalk.dim(`${(index + 1).toString().padStart(3)}.`)} ${colorFn(icon)} ${plan.planId}${deps > 0 ? chalk.dim(` (${deps} deps)`) : ''}`
+        `${chalk.dim(`${(index + 1).toString().padStart(3)}.`)} ${colorFn(icon)} ${plan.planId}${formatDetails(plan.planId, deps)}`
       );
       if (title && title !== plan.planId) {
         lines.push(`      ${chalk.dim(title)}`);
@@ -187,7 +270,7 @@ const renderFlatList = ({
       const deps = plan?.dependsOnPlanIds.length ?? 0;
 
       lines.push(
-        `${chalk.dim(`${(index + 1).toString().padStart(3)}.`)} ${colorFn(icon)} ${planId}${deps > 0 ? chalk.dim(` (${deps} deps)`) : ''}`
+        `${chalk.dim(`${(index + 1).toString().padStart(3)}.`)} ${colorFn(icon)} ${planId}${formatDetails(planId, deps)}`
       );
       if (title && title !== planId) {
         lines.push(`      ${chalk.dim(title)}`);
@@ -237,6 +320,7 @@ const listAllStacks = async (): Promise<void> => {
       stackName: stack.stackName,
       planIds,
     });
+    await markStalePlans({ stack, status });
 
     const completed = Object.values(status.planStatuses).filter(
       (s) => s.executionStatus === 'completed'
@@ -244,11 +328,13 @@ const listAllStacks = async (): Promise<void> => {
     const total = stack.plans.length;
     const running = status.isRunning;
 
-    const statusText = running
-      ? chalk.yellow('running')
-      : completed === total
-        ? chalk.green('completed')
-        : chalk.gray(`${completed}/${total}`);
+    const statusText = isRunLockStale({ status })
+      ? chalk.red('stale lock')
+      : running
+        ? chalk.yellow('running')
+        : completed === total
+          ? chalk.green('completed')
+          : chalk.gray(`${completed}/${total}`);
 
     console.log(
       `  ${chalk.cyan(stack.stackName)} ${chalk.dim(`(${total} plans)`)} ${statusText}`
@@ -280,18 +366,35 @@ const showStackTree = async ({
 
   const planIds = stack.plans.map((p) => p.planId);
   const status = await loadStackStatus({ stackName, planIds });
+  await markStalePlans({ stack, status });
 
-  // Load plan titles
+  // Load plan titles, conditions and working directories
+  const stackRoot = resolveStackRoot({ stack });
   const planTitles = new Map<string, string>();
+  const planConditions = new Map<string, string>();
+  const planCwds = new Map<string, PlanCwd>();
   await Promise.all(
     planIds.map(async (planId) => {
       const plan = await loadPlanById({ planId });
       if (plan) {
         planTitles.set(planId, plan.title);
+        if (plan.when && !isDefaultCondition(plan.when)) {
+          planConditions.set(planId, plan.when);
+        }
+
+        const planCwd = resolvePlanCwd({ stack, plan });
+        if (planCwd !== stackRoot) {
+          planCwds.set(planId, {
+            path: planCwd,
+            missing: (await checkWorkingDirectory(planCwd)) !== null,
+          });
+        }
       }
     })
   );
 
+  const stackRootMissing = (await checkWorkingDirectory(stackRoot)) !== null;
+
   const statuses = Object.fromEntries(
     Object.entries(status.planStatuses).map(([id, s]) => [
       id,
@@ -303,6 +406,11 @@ const showStackTree = async ({
   if (stack.stackDescription) {
     console.log(chalk.dim(stack.stackDescription));
   }
+  console.log(
+    stackRootMissing
+      ? chalk.red(`Working directory: ${stackRoot} (missing)`)
+      : chalk.dim(`Working directory: ${stackRoot}`)
+  );
   console.log();
 
   // Use flat list for large stacks, tree for small ones
@@ -315,7 +423,10 @@ const showStackTree = async ({
     console.log();
     const flatLines = renderFlatList({
       stackPlans: stack.plans,
+      stackRoot,
       planTitles,
+      planConditions,
+      planCwds,
       statuses,
     });
     flatLines.forEach((line) => console.log(line));
@@ -324,16 +435,28 @@ const showStackTree = async ({
       stackPlans: stack.plans,
       rootPlanIds: stack.rootPlanIds,
       planTitles,
+      planConditions,
+      planCwds,
       statuses,
     });
 
-    const treeLines = renderTree({ nodes: tree });
+    const treeLines = renderTree({ nodes: tree, stackRoot });
     treeLines.forEach((line) => console.log(line));
   }
 
   console.log();
   console.log(chalk.dim('Legend:'));
   console.log(
-    `  ${STATUS_COLORS.pending(STATUS_ICONS.pending)} pending  ${STATUS_COLORS.running(STATUS_ICONS.running)} running  ${STATUS_COLORS.completed(STATUS_ICONS.completed)} completed  ${STATUS_COLORS.failed(STATUS_ICONS.failed)} failed  ${STATUS_COLORS.skipped(STATUS_ICONS.skipped)} skipped`
+    `  ${STATUS_COLORS.pending(STATUS_ICONS.pending)} pending  ${STATUS_COLORS.running(STATUS_ICONS.running)} running  ${STATUS_COLORS.completed(STATUS_ICONS.completed)} completed  ${STATUS_COLORS.failed(STATUS_ICONS.failed)} failed  ${STATUS_COLORS.skipped(STATUS_ICONS.skipped)} skipped  ${STATUS_COLORS.interrupted(STATUS_ICONS.interrupted)} interrupted  ${STATUS_COLORS.stale(STATUS_ICONS.stale)} stale  ${STATUS_COLORS.awaiting_approval(STATUS_ICONS.awaiting_approval)} awaiting approval`
   );
+
+  if (planConditions.size > 0) {
+    console.log(`  ${chalk.dim('├┄')} conditional dependency ${chalk.dim('(when:)')}`);
+  }
+
+  if (planCwds.size > 0) {
+    console.log(
+      `  ${chalk.dim('[cwd: ...]')} runs outside the stack's working directory`
+    );
+  }
 };
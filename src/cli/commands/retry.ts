@@ -0,0 +1,27 @@
+import { runCommand, type RunOptions } from './run.js';
+
+interface RetryOptions extends Omit<RunOptions, 'dryRun' | 'from' | 'reset'> {
+  message?: string;
+}
+
+/**
+ * Resume a plan's last Claude session with a follow-up message, then run the
+ * plans that depend on it
+ */
+export const retryCommand = async ({
+  stackName,
+  planId,
+  options,
+}: {
+  stackName: string;
+  planId: string;
+  options: RetryOptions;
+}): Promise<void> => {
+  const { message, ...runOptions } = options;
+
+  await runCommand({
+    stackName,
+    options: runOptions,
+    retry: { planId, message },
+  });
+};
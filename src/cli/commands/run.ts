@@ -1,24 +1,108 @@
 import chalk from 'chalk';
-import ora from 'ora';
+import inquirer from 'inquirer';
+import ora, { type Ora } from 'ora';
 import { loadStack } from '../../core/stack-manager.js';
-import { executeStack, getStackExecutionStatus } from '../../core/executor.js';
-import { getExecutionOrder } from '../../core/dependency-graph.js';
-import { resetStackStatus } from '../../storage/status-store.js';
+import {
+  executeStack,
+  getStackExecutionStatus,
+  killRunningPlans,
+  type ExecuteStackOptions,
+  type ExecutePlanResult,
+  type GateDecision,
+  type GateRequest,
+  type ResumeRequest,
+} from '../../core/executor.js';
+import {
+  getDescendantPlanIds,
+  getExecutionOrder,
+  selectPlanIds,
+  type PlanSelection,
+} from '../../core/dependency-graph.js';
+import { watchPlanFiles } from '../../core/plan-watcher.js';
+import type { BudgetUsage } from '../../core/budget.js';
+import { isDefaultCondition } from '../../core/conditions.js';
+import { buildPlanPrompt, DEFAULT_RESUME_MESSAGE } from '../../core/prompt.js';
+import {
+  parseVarAssignments,
+  renderPlanTemplate,
+  resolveTemplateVars,
+} from '../../core/template.js';
+import {
+  checkWorkingDirectory,
+  resolvePlanCwd,
+  resolvePlanEnv,
+  resolveStackRoot,
+} from '../../core/working-directory.js';
+import {
+  isRunLockStale,
+  loadStackStatus,
+  resetStackStatus,
+} from '../../storage/status-store.js';
 import { loadPlanById } from '../../core/plan-parser.js';
+import { parseDuration } from '../../core/duration.js';
+import { createPlanRunner, type PlanRunner } from '../../core/runner.js';
+import type { ExecutionStatus, Stack } from '../../types/index.js';
 
-interface RunOptions {
+export interface RunOptions {
   dryRun?: boolean;
   from?: string;
+  only?: string[];
+  until?: string;
+  descendantsOf?: string;
+  failed?: boolean;
   reset?: boolean;
+  watch?: boolean;
   claude?: string;
+  concurrency?: string;
+  verbose?: boolean;
+  timeout?: string;
+  retries?: string;
+  git?: boolean;
+  worktrees?: boolean;
+  keepWorktrees?: boolean;
+  failFast?: boolean;
+  keepGoing?: boolean;
+  confirmEach?: boolean;
+  maxDuration?: string;
+  maxCost?: string;
+  var?: string[];
+  showPrompt?: boolean;
 }
 
+type StackRunOptions = Omit<
+  ExecuteStackOptions,
+  'stackName' | 'dryRun' | 'callbacks' | 'signal'
+>;
+
+const PLAN_OUTPUT_COLORS = [
+  chalk.cyan,
+  chalk.magenta,
+  chalk.blue,
+  chalk.yellow,
+  chalk.cyanBright,
+  chalk.magentaBright,
+  chalk.blueBright,
+];
+
+const MAX_OUTPUT_PREFIX_WIDTH = 24;
+
+export interface RetryRequest {
+  planId: string;
+  message?: string;
+}
+
+/**
+ * Run a stack. With `retry`, the plan resumes its last Claude session and
+ * only it and its descendants are run.
+ */
 export const runCommand = async ({
   stackName,
   options,
+  retry,
 }: {
   stackName: string;
   options: RunOptions;
+  retry?: RetryRequest;
 }): Promise<void> => {
   const stack = await loadStack({ stackName });
 
@@ -30,17 +114,37 @@ export const runCommand = async ({
   // Check if already running
   const currentStatus = await getStackExecutionStatus({ stackName });
   if (currentStatus?.isRunning) {
+    const { runLock } = currentStatus;
+
+    if (isRunLockStale({ status: currentStatus })) {
+      console.log(
+        chalk.yellow(
+          `Stack '${stackName}' is marked as running, but the run that locked it is gone.`
+        )
+      );
+      if (runLock) {
+        console.log(
+          chalk.dim(
+            `Locked by PID ${runLock.pid} on ${runLock.hostname} at ${new Date(runLock.startedAt).toLocaleString()}`
+          )
+        );
+      }
+      console.log();
+      console.log(`Clear the stale lock with: ${chalk.cyan(`cc unlock ${stackName}`)}`);
+      return;
+    }
+
     console.log(chalk.yellow(`Stack '${stackName}' is already running.`));
+    if (runLock) {
+      console.log(
+        chalk.dim(
+          `PID ${runLock.pid} on ${runLock.hostname}, started ${new Date(runLock.startedAt).toLocaleString()}`
+        )
+      );
+    }
     return;
   }
 
-  // Reset status if requested
-  if (options.reset) {
-    const planIds = stack.plans.map((p) => p.planId);
-    await resetStackStatus({ stackName, planIds });
-    console.log(chalk.dim('Reset all plan statuses to pending.'));
-  }
-
   // Get execution order
   const { sortedPlanIds, hasCycle, cycleNodes } = getExecutionOrder({
     stackPlans: stack.plans,
@@ -52,39 +156,382 @@ export const runCommand = async ({
     return;
   }
 
+  const selection: PlanSelection = retry
+    ? { descendantsOf: retry.planId }
+    : {
+        only: options.only,
+        until: options.until,
+        descendantsOf: options.descendantsOf,
+        failed: options.failed,
+      };
+
+  const unknownPlanId = [
+    options.from,
+    ...(selection.only ?? []),
+    selection.until,
+    selection.descendantsOf,
+  ].find((planId) => planId !== undefined && !sortedPlanIds.includes(planId));
+
+  if (unknownPlanId) {
+    console.log(chalk.red(`Plan '${unknownPlanId}' not found in stack.`));
+    return;
+  }
+
+  const selectedPlanIds =
+    selectPlanIds({
+      stackPlans: stack.plans,
+      selection,
+      planStatuses: currentStatus?.planStatuses,
+    }) ?? undefined;
+
+  let resume: ResumeRequest | null = null;
+
+  if (retry) {
+    const sessionId = currentStatus?.planStatuses[retry.planId]?.sessionId;
+
+    if (!sessionId) {
+      console.log(
+        chalk.red(`No Claude session recorded for plan '${retry.planId}'.`)
+      );
+      console.log(chalk.dim(`Run it from scratch with: cc run ${stackName}`));
+      return;
+    }
+
+    resume = {
+      planId: retry.planId,
+      sessionId,
+      message: retry.message ?? DEFAULT_RESUME_MESSAGE,
+    };
+    console.log(
+      chalk.dim(`Resuming Claude session ${sessionId} for plan '${retry.planId}'.`)
+    );
+  }
+
   // Filter from specific plan if requested
-  const executionOrder = options.from
-    ? sortedPlanIds.slice(sortedPlanIds.indexOf(options.from))
-    : sortedPlanIds;
+  const executionOrder = (
+    options.from
+      ? sortedPlanIds.slice(sortedPlanIds.indexOf(options.from))
+      : sortedPlanIds
+  ).filter((planId) => !selectedPlanIds || selectedPlanIds.includes(planId));
+
+  if (executionOrder.length === 0) {
+    console.log(chalk.yellow('No plans match the selection.'));
+    return;
+  }
+
+  // Reset status if requested; with a selection, only the selected plans
+  if (options.reset) {
+    const planIds = stack.plans.map((p) => p.planId);
+    await resetStackStatus({
+      stackName,
+      planIds,
+      resetPlanIds: selectedPlanIds && executionOrder,
+    });
+    console.log(
+      chalk.dim(
+        selectedPlanIds
+          ? `Reset ${executionOrder.join(', ')} to pending.`
+          : 'Reset all plan statuses to pending.'
+      )
+    );
+  }
+
+  const concurrency = options.concurrency
+    ? Number(options.concurrency)
+    : 1;
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.log(
+      chalk.red(`Invalid concurrency '${options.concurrency}'. Use a positive integer.`)
+    );
+    return;
+  }
+
+  const timeoutMs = options.timeout ? parseDuration(options.timeout) : null;
+
+  if (options.timeout && timeoutMs === null) {
+    console.log(
+      chalk.red(`Invalid timeout '${options.timeout}'. Use e.g. 90s, 30m or 1h.`)
+    );
+    return;
+  }
+
+  const retries = options.retries ? Number(options.retries) : 0;
+
+  if (!Number.isInteger(retries) || retries < 0) {
+    console.log(
+      chalk.red(`Invalid retries '${options.retries}'. Use a non-negative integer.`)
+    );
+    return;
+  }
+
+  const maxDurationMs = options.maxDuration
+    ? parseDuration(options.maxDuration)
+    : null;
 
-  if (options.from && !sortedPlanIds.includes(options.from)) {
-    console.log(chalk.red(`Plan '${options.from}' not found in stack.`));
+  if (options.maxDuration && !maxDurationMs) {
+    console.log(
+      chalk.red(`Invalid max duration '${options.maxDuration}'. Use e.g. 30m or 2h.`)
+    );
+    return;
+  }
+
+  const maxCostUsd = options.maxCost ? Number(options.maxCost) : null;
+
+  if (maxCostUsd !== null && !(maxCostUsd > 0)) {
+    console.log(
+      chalk.red(`Invalid max cost '${options.maxCost}'. Use a positive number of USD.`)
+    );
+    return;
+  }
+
+  let vars: Record<string, string>;
+
+  try {
+    vars = parseVarAssignments(options.var ?? []);
+  } catch (error) {
+    console.log(chalk.red(error instanceof Error ? error.message : 'Invalid variable.'));
+    return;
+  }
+
+  if (options.showPrompt && !options.dryRun) {
+    console.log(chalk.red('--show-prompt only works with --dry-run.'));
+    return;
+  }
+
+  if (options.watch && options.dryRun) {
+    console.log(chalk.red('--watch cannot be combined with --dry-run.'));
+    return;
+  }
+
+  if (options.failFast && options.keepGoing) {
+    console.log(chalk.red('--fail-fast cannot be combined with --keep-going.'));
     return;
   }
 
   // Dry run mode - just show execution order
   if (options.dryRun) {
-    await showDryRun({ stackName, executionOrder });
+    await showDryRun({
+      stack,
+      executionOrder,
+      claudeCommand: options.claude ?? 'claude',
+      vars,
+      showPrompt: options.showPrompt ?? false,
+      trackCost:
+        maxCostUsd !== null || stack.settings?.budget?.maxCost !== undefined,
+    });
     return;
   }
 
+  const runOptions: StackRunOptions = {
+    claudeCommand: options.claude ?? 'claude',
+    concurrency,
+    timeoutMs,
+    retries,
+    git: options.git,
+    worktrees: options.worktrees,
+    keepWorktrees: options.keepWorktrees,
+    failurePolicy: options.failFast
+      ? 'fail-fast'
+      : options.keepGoing
+        ? 'keep-going'
+        : undefined,
+    confirmEach: options.confirmEach,
+    maxDurationMs,
+    maxCostUsd,
+    vars,
+  };
+
   // Execute the stack
-  await executeStackWithProgress({
+  const outcome = await executeStackWithProgress({
     stackName,
     executionOrder,
-    claudeCommand: options.claude,
-    fromPlanId: options.from,
+    verbose: options.verbose ?? false,
+    runOptions: {
+      ...runOptions,
+      fromPlanId: options.from,
+      selectedPlanIds,
+      resume,
+    },
+  });
+
+  // A run that failed its pre-checks has printed why; watch for the fix
+  if (options.watch && !outcome?.interrupted) {
+    await watchStack({
+      stack,
+      sortedPlanIds,
+      verbose: options.verbose ?? false,
+      runOptions,
+    });
+  }
+};
+
+const WATCH_STATUS_ORDER: [ExecutionStatus, string, (text: string) => string][] = [
+  ['completed', '✓', chalk.green],
+  ['failed', '✗', chalk.red],
+  ['skipped', '○', chalk.dim],
+  ['interrupted', '⊘', chalk.magenta],
+  ['stale', '◐', chalk.cyan],
+  ['awaiting_approval', '⏸', chalk.blue],
+  ['pending', '◯', chalk.gray],
+];
+
+/**
+ * Print a one-line summary of the stack's plan statuses between watch cycles
+ */
+const printWatchStatus = async ({ stack }: { stack: Stack }): Promise<void> => {
+  const planIds = stack.plans.map((p) => p.planId);
+  const status = await loadStackStatus({ stackName: stack.stackName, planIds });
+  const statuses = planIds.map(
+    (planId) => status.planStatuses[planId]?.executionStatus ?? 'pending'
+  );
+
+  const counts = WATCH_STATUS_ORDER.map(([executionStatus, icon, colorFn]) => {
+    const count = statuses.filter((s) => s === executionStatus).length;
+    return count > 0 ? colorFn(`${icon} ${count}`) : null;
+  }).filter((text): text is string => text !== null);
+
+  console.log();
+  console.log(
+    `${chalk.dim(`[${new Date().toLocaleTimeString()}]`)} ${chalk.bold(stack.stackName)} ${counts.join(' ')} ` +
+      chalk.dim('· watching plan files (Ctrl-C to stop)')
+  );
+};
+
+/**
+ * Watch the stack's plan files and, after each change, rerun the changed
+ * plans and everything downstream of them.
+ *
+ * Changes made while a run is in progress are picked up once it finishes.
+ * Resolves when the user stops watching with Ctrl-C, or a run is interrupted.
+ */
+const watchStack = async ({
+  stack,
+  sortedPlanIds,
+  verbose,
+  runOptions,
+}: {
+  stack: Stack;
+  sortedPlanIds: string[];
+  verbose: boolean;
+  runOptions: StackRunOptions;
+}): Promise<void> => {
+  const { stackName } = stack;
+
+  const plans = await Promise.all(
+    stack.plans.map((sp) => loadPlanById({ planId: sp.planId }))
+  );
+  const planFiles = Object.fromEntries(
+    plans
+      .filter((plan) => plan !== null)
+      .map((plan) => [plan.planId, plan.filePath])
+  );
+
+  await printWatchStatus({ stack });
+
+  await new Promise<void>((resolve) => {
+    const changedPlanIds = new Set<string>();
+    let isRunning = false;
+
+    const stop = (): void => {
+      stopWatching();
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+
+    // Run handles its own Ctrl-C, so the idle handler is removed meanwhile
+    const runChangedPlans = async (): Promise<void> => {
+      isRunning = true;
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+
+      while (changedPlanIds.size > 0) {
+        const planIds = [...changedPlanIds];
+        changedPlanIds.clear();
+
+        const selectedPlanIds = new Set(
+          planIds.flatMap((planId) => [
+            planId,
+            ...getDescendantPlanIds({ stackPlans: stack.plans, planId }),
+          ])
+        );
+        const executionOrder = sortedPlanIds.filter((planId) =>
+          selectedPlanIds.has(planId)
+        );
+
+        console.log();
+        console.log(chalk.cyan(`Changed: ${planIds.join(', ')}`));
+
+        const currentStatus = await getStackExecutionStatus({ stackName });
+        if (currentStatus?.isRunning) {
+          console.log(
+            chalk.yellow(`Stack '${stackName}' is running elsewhere; skipping this change.`)
+          );
+          continue;
+        }
+
+        const outcome = await executeStackWithProgress({
+          stackName,
+          executionOrder,
+          verbose,
+          runOptions: { ...runOptions, selectedPlanIds: executionOrder },
+        });
+
+        if (outcome?.interrupted) {
+          stop();
+          return;
+        }
+
+        await printWatchStatus({ stack });
+      }
+
+      isRunning = false;
+      process.on('SIGINT', stop);
+      process.on('SIGTERM', stop);
+    };
+
+    const stopWatching = watchPlanFiles({
+      planFiles,
+      onChange: (planIds) => {
+        planIds.forEach((planId) => changedPlanIds.add(planId));
+        if (!isRunning) void runChangedPlans();
+      },
+    });
+
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
   });
 };
 
 const showDryRun = async ({
-  stackName,
+  stack,
   executionOrder,
+  claudeCommand,
+  vars,
+  showPrompt,
+  trackCost,
 }: {
-  stackName: string;
+  stack: Stack;
   executionOrder: string[];
+  claudeCommand: string;
+  vars: Record<string, string>;
+  showPrompt: boolean;
+  // Show the flags a cost budget adds to Claude plans
+  trackCost: boolean;
 }): Promise<void> => {
+  const { stackName } = stack;
+  const planIds = stack.plans.map((p) => p.planId);
+  const status = await loadStackStatus({ stackName, planIds });
+  const templateVars = resolveTemplateVars({
+    stackVars: stack.settings?.vars,
+    vars,
+  });
+
+  const stackRoot = resolveStackRoot({ stack });
+
   console.log(chalk.bold(`Dry run for stack: ${stackName}`));
+  console.log(chalk.dim(`Working directory: ${stackRoot}`));
   console.log(chalk.dim('Plans will be executed in this order:'));
   console.log();
 
@@ -95,6 +542,84 @@ const showDryRun = async ({
 
     console.log(`  ${chalk.cyan(`${i + 1}.`)} ${planId}`);
     console.log(chalk.dim(`     ${title}`));
+
+    if (!plan) continue;
+
+    if (plan.when && !isDefaultCondition(plan.when)) {
+      console.log(chalk.yellow(`     when: ${plan.when}`));
+    }
+
+    if (plan.gate === 'manual') {
+      console.log(chalk.blue('     gate: manual (waits for approval)'));
+    }
+
+    const planCwd = resolvePlanCwd({ stack, plan });
+    const cwdError = await checkWorkingDirectory(planCwd);
+
+    if (cwdError) {
+      console.log(chalk.red(`     ${cwdError}`));
+    } else if (planCwd !== stackRoot) {
+      console.log(chalk.dim(`     cwd: ${planCwd}`));
+    }
+
+    let runner: PlanRunner;
+
+    try {
+      runner = createPlanRunner({
+        plan,
+        runnerSettings: stack.settings?.runner,
+        claudeCommand,
+        claudeSettings: stack.settings?.claude,
+        trackCost,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.log(chalk.red(`     ${message}`));
+      continue;
+    }
+
+    // The prompt is the plan file (plus any dependency context), so it is
+    // left out to keep the command readable
+    const commandLine = runner.describe();
+    console.log(chalk.dim(`     $ ${commandLine}`));
+
+    let content: string;
+
+    try {
+      content = renderPlanTemplate({
+        content: plan.content,
+        context: {
+          stackName,
+          planId,
+          planTitle: plan.title || planId,
+          vars: templateVars,
+          env: { ...process.env, ...resolvePlanEnv({ stack, plan }) },
+          dependencyStatuses: Object.fromEntries(
+            (stack.plans.find((sp) => sp.planId === planId)?.dependsOnPlanIds ?? []).map(
+              (depId) => [
+                depId,
+                status.planStatuses[depId]?.executionStatus ?? 'pending',
+              ]
+            )
+          ),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.log(chalk.red(`     ${message}`));
+      continue;
+    }
+
+    if (showPrompt) {
+      // Dependency outputs aren't known until the run, so they are left out
+      const prompt = buildPlanPrompt({ plan: { ...plan, content } });
+      console.log(chalk.dim('     ┌ prompt'));
+      prompt
+        .trimEnd()
+        .split('\n')
+        .forEach((line) => console.log(`${chalk.dim('     │')} ${line}`));
+      console.log(chalk.dim('     └'));
+    }
   }
 
   console.log();
@@ -103,53 +628,282 @@ const showDryRun = async ({
   console.log(`Run with: ${chalk.cyan(`cc run ${stackName}`)}`);
 };
 
+/**
+ * Interrupt the run on the first Ctrl-C or SIGTERM and force-quit on the
+ * second. Returns a function that removes the handlers.
+ */
+const handleInterrupts = ({
+  stackName,
+  controller,
+  spinner,
+}: {
+  stackName: string;
+  controller: AbortController;
+  spinner: Ora;
+}): (() => void) => {
+  const onSignal = (): void => {
+    if (spinner.isSpinning) spinner.clear();
+
+    if (controller.signal.aborted) {
+      spinner.stop();
+      killRunningPlans();
+      console.log(
+        chalk.red('Force quit. Running plans were killed.') +
+          chalk.dim(` Clear the run lock with: cc unlock ${stackName}`)
+      );
+      process.exit(130);
+    }
+
+    console.log(
+      chalk.yellow('Interrupting: stopping running plans...') +
+        chalk.dim(' (press Ctrl-C again to force quit)')
+    );
+    controller.abort();
+    if (spinner.isSpinning) spinner.render();
+  };
+
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  return () => {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+  };
+};
+
+/**
+ * Show a gated plan with its dependencies' results and command, and ask
+ * whether to run it. Interrupting the run answers 'abort'.
+ */
+const promptGate = async ({
+  request,
+  signal,
+}: {
+  request: GateRequest;
+  signal: AbortSignal;
+}): Promise<GateDecision> => {
+  if (signal.aborted) return 'abort';
+
+  const dependencies = Object.entries(request.dependencyStatuses).map(
+    ([depId, status]) => {
+      const [, icon, colorFn] = WATCH_STATUS_ORDER.find(
+        ([executionStatus]) => executionStatus === status
+      ) ?? [status, '?', chalk.gray];
+      return colorFn(`${icon} ${depId}`);
+    }
+  );
+
+  console.log();
+  console.log(
+    chalk.blue.bold(`⏸ Approval needed: ${request.planId}`) +
+      chalk.dim(` ${request.title}`)
+  );
+  console.log(
+    `${chalk.dim('   Dependencies:')} ${dependencies.length > 0 ? dependencies.join('  ') : chalk.dim('none')}`
+  );
+  console.log(`${chalk.dim('   Command:')} ${request.commandLine}`);
+
+  const answer = inquirer.prompt<{ decision: GateDecision }>([
+    {
+      type: 'list',
+      name: 'decision',
+      message: `Run ${request.planId}?`,
+      choices: [
+        { name: 'Approve and run', value: 'approve' },
+        { name: 'Skip this plan and its dependents', value: 'skip' },
+        { name: 'Abort the run', value: 'abort' },
+      ],
+    },
+  ]);
+
+  // On Ctrl-C inquirer closes the prompt without settling it and re-sends
+  // SIGINT. Keep the process alive until that reaches the interrupt handler,
+  // whose abort answers for the prompt.
+  const keepAlive = setInterval(() => undefined, 1000);
+  const aborted = new Promise<GateDecision>((resolve) => {
+    signal.addEventListener('abort', () => resolve('abort'), { once: true });
+  });
+
+  return Promise.race([
+    answer.then(({ decision }) => decision),
+    aborted,
+  ]).finally(() => clearInterval(keepAlive));
+};
+
+/**
+ * Print how much of each budget a run used
+ */
+const printBudgetUsage = (usage: BudgetUsage): void => {
+  const formatShare = (used: number, limit: number): string => {
+    const percent = Math.round((used / limit) * 100);
+    const colorFn =
+      percent >= 100 ? chalk.red : percent >= 80 ? chalk.yellow : chalk.green;
+    return colorFn(`${percent}%`);
+  };
+
+  const parts = [
+    ...(usage.maxDurationMs !== null
+      ? [
+          `time ${formatDuration(usage.durationMs)} of ${formatDuration(usage.maxDurationMs)} ` +
+            `(${formatShare(usage.durationMs, usage.maxDurationMs)})`,
+        ]
+      : []),
+    ...(usage.maxCostUsd !== null
+      ? [
+          `cost $${usage.costUsd.toFixed(2)} of $${usage.maxCostUsd.toFixed(2)} ` +
+            `(${formatShare(usage.costUsd, usage.maxCostUsd)})`,
+        ]
+      : []),
+  ];
+
+  console.log(`${chalk.dim('Budget:')} ${parts.join(chalk.dim(' | '))}`);
+};
+
 const executeStackWithProgress = async ({
   stackName,
   executionOrder,
-  claudeCommand,
-  fromPlanId,
+  verbose,
+  runOptions,
 }: {
   stackName: string;
   executionOrder: string[];
-  claudeCommand?: string;
-  fromPlanId?: string;
-}): Promise<void> => {
+  verbose: boolean;
+  runOptions: StackRunOptions;
+}): Promise<{ results: ExecutePlanResult[]; interrupted: boolean } | null> => {
+  const concurrency = runOptions.concurrency ?? 1;
+
   console.log(chalk.bold(`Executing stack: ${stackName}`));
-  console.log(chalk.dim(`${executionOrder.length} plans to execute`));
+  console.log(
+    chalk.dim(
+      `${executionOrder.length} plans to execute` +
+        (concurrency > 1 ? ` (up to ${concurrency} in parallel)` : '')
+    )
+  );
   console.log();
 
   const spinner = ora({ spinner: 'dots' });
+  const runningPlanIds = new Set<string>();
+  const outputPrinter = verbose
+    ? createOutputPrinter({ planIds: executionOrder, spinner })
+    : null;
+
+  // The spinner shows every plan currently executing
+  const updateSpinner = (): void => {
+    if (runningPlanIds.size === 0) {
+      spinner.stop();
+      return;
+    }
+    spinner.start(`Executing: ${[...runningPlanIds].join(', ')}`);
+  };
+
+  // Gates can only be answered from a terminal; otherwise gated plans are
+  // left for `cc approve`. Prompts are asked one at a time.
+  const interactive = process.stdin.isTTY && process.stdout.isTTY;
+  let gatePrompts: Promise<unknown> = Promise.resolve();
+
+  let results: ExecutePlanResult[];
+  let interrupted = false;
+  let failFastPlanId: string | undefined;
+  let awaitingApprovalPlanIds: string[] = [];
+  let budgetUsage: BudgetUsage | null = null;
+  let budgetExhausted: string | null = null;
 
-  const { results } = await executeStack({
+  const controller = new AbortController();
+  const removeInterruptHandlers = handleInterrupts({
     stackName,
-    dryRun: false,
-    fromPlanId,
-    claudeCommand: claudeCommand ?? 'claude',
-    callbacks: {
-      onPlanStart: (planId) => {
-        spinner.start(`Executing: ${planId}`);
-      },
-      onPlanComplete: (planId, status, durationMs) => {
-        const duration = formatDuration(durationMs);
-
-        if (status === 'completed') {
-          spinner.succeed(`${chalk.green('✓')} ${planId} ${chalk.dim(`(${duration})`)}`);
-        } else if (status === 'failed') {
-          spinner.fail(`${chalk.red('✗')} ${planId} ${chalk.dim(`(${duration})`)}`);
-        } else if (status === 'skipped') {
-          spinner.warn(`${chalk.dim('○')} ${planId} ${chalk.dim('(skipped)')}`);
-        }
-      },
-      onPlanError: (planId, error) => {
-        spinner.fail(`${chalk.red('✗')} ${planId}`);
-        console.log(chalk.red(`   Error: ${error}`));
-      },
-      onOutput: () => {
-        // Output is collected in results - add --verbose flag to stream
-      },
-    },
+    controller,
+    spinner,
   });
 
+  try {
+    ({
+      results,
+      interrupted = false,
+      failFastPlanId,
+      awaitingApprovalPlanIds = [],
+      budgetUsage = null,
+      budgetExhausted = null,
+    } = await executeStack({
+      ...runOptions,
+      stackName,
+      dryRun: false,
+      signal: controller.signal,
+      callbacks: {
+        onPlanStart: (planId) => {
+          runningPlanIds.add(planId);
+          updateSpinner();
+        },
+        onPlanComplete: (planId, status, durationMs) => {
+          const duration = formatDuration(durationMs);
+          runningPlanIds.delete(planId);
+          outputPrinter?.flush(planId);
+
+          if (status === 'completed') {
+            spinner.succeed(`${chalk.green('✓')} ${planId} ${chalk.dim(`(${duration})`)}`);
+          } else if (status === 'failed') {
+            spinner.fail(`${chalk.red('✗')} ${planId} ${chalk.dim(`(${duration})`)}`);
+          } else if (status === 'skipped') {
+            spinner.warn(`${chalk.dim('○')} ${planId} ${chalk.dim('(skipped)')}`);
+          } else if (status === 'interrupted') {
+            spinner.warn(`${chalk.magenta('⊘')} ${planId} ${chalk.dim('(interrupted)')}`);
+          }
+
+          updateSpinner();
+        },
+        onPlanError: (planId, error) => {
+          spinner.clear();
+          console.log(chalk.red(`   ${planId}: ${error}`));
+          updateSpinner();
+        },
+        onPlanRetry: (planId, attempt, error, delayMs) => {
+          outputPrinter?.flush(planId);
+          if (spinner.isSpinning) spinner.clear();
+          console.log(
+            chalk.yellow(`↻ ${planId}: ${error}. `) +
+              chalk.dim(`Retrying in ${formatDuration(delayMs)} (attempt ${attempt})`)
+          );
+          if (spinner.isSpinning) spinner.render();
+        },
+        onOutput: (planId, data) => {
+          outputPrinter?.write(planId, data);
+        },
+        onHookError: (planId, error) => {
+          if (spinner.isSpinning) spinner.clear();
+          console.log(chalk.yellow(`⚠ ${planId ? `${planId}: ` : ''}${error}`));
+          if (spinner.isSpinning) spinner.render();
+        },
+        onStalePlans: (planIds) => {
+          console.log(
+            chalk.cyan(`◐ Changed since they completed, running again: ${planIds.join(', ')}`)
+          );
+        },
+        onUncostedPlans: (planIds) => {
+          console.log(
+            chalk.yellow(`⚠ Cost budget can't see what these plans spend: ${planIds.join(', ')}`)
+          );
+        },
+        onGate: interactive
+          ? (request) => {
+              const decision = gatePrompts.then(() => {
+                spinner.stop();
+                return promptGate({ request, signal: controller.signal });
+              });
+              gatePrompts = decision.catch(() => undefined);
+              return decision.finally(updateSpinner);
+            }
+          : undefined,
+      },
+    }));
+  } catch (error) {
+    spinner.stop();
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    console.log(chalk.red(`Failed to execute stack: ${errorMessage}`));
+    return null;
+  } finally {
+    removeInterruptHandlers();
+  }
+
   // Summary
   console.log();
   console.log(chalk.dim('─'.repeat(50)));
@@ -157,14 +911,50 @@ const executeStackWithProgress = async ({
   const completed = results.filter((r) => r.executionStatus === 'completed').length;
   const failed = results.filter((r) => r.executionStatus === 'failed').length;
   const skipped = results.filter((r) => r.executionStatus === 'skipped').length;
+  const interruptedCount = results.filter(
+    (r) => r.executionStatus === 'interrupted'
+  ).length;
 
-  if (failed === 0) {
+  if (interrupted) {
+    console.log(
+      `${chalk.yellow('Interrupted.')} ` +
+        `${chalk.green(`${completed} completed`)} | ` +
+        `${chalk.magenta(`${interruptedCount} interrupted`)}`
+    );
+  } else if (
+    failed === 0 &&
+    skipped === 0 &&
+    interruptedCount === 0 &&
+    awaitingApprovalPlanIds.length === 0
+  ) {
     console.log(chalk.green(`✓ All ${completed} plans completed successfully.`));
   } else {
     console.log(
       `${chalk.green(`${completed} completed`)} | ` +
         `${chalk.red(`${failed} failed`)} | ` +
-        `${chalk.dim(`${skipped} skipped`)}`
+        `${chalk.dim(`${skipped} skipped`)}` +
+        (interruptedCount > 0
+          ? ` | ${chalk.magenta(`${interruptedCount} interrupted`)}`
+          : '') +
+        (awaitingApprovalPlanIds.length > 0
+          ? ` | ${chalk.blue(`${awaitingApprovalPlanIds.length} awaiting approval`)}`
+          : '')
+    );
+  }
+
+  if (budgetUsage) {
+    printBudgetUsage(budgetUsage);
+  }
+
+  if (budgetExhausted) {
+    console.log(
+      chalk.yellow(`Budget exhausted: ${budgetExhausted}. Remaining plans were skipped.`)
+    );
+  }
+
+  if (failFastPlanId && !interrupted) {
+    console.log(
+      chalk.yellow(`Stopped after '${failFastPlanId}' failed (fail-fast).`)
     );
   }
 
@@ -180,7 +970,86 @@ const executeStackWithProgress = async ({
           console.log(chalk.dim(`    ${r.errorMessage}`));
         }
       });
+    console.log();
+    console.log(`View output with: ${chalk.cyan(`cc logs ${stackName} <plan>`)}`);
   }
+
+  if (awaitingApprovalPlanIds.length > 0) {
+    console.log();
+    console.log(chalk.blue('Waiting for approval:'));
+    awaitingApprovalPlanIds.forEach((planId) => {
+      console.log(`  ${chalk.blue('⏸')} ${planId}`);
+    });
+    console.log();
+    console.log(
+      `Approve and continue with: ${chalk.cyan(`cc approve ${stackName} <plan>`)}`
+    );
+  }
+
+  if (interrupted || failFastPlanId) {
+    console.log();
+    console.log(`Resume with: ${chalk.cyan(`cc run ${stackName}`)}`);
+  }
+
+  return { results, interrupted };
+};
+
+/**
+ * Stream plan output line by line, prefixed with a colour-coded plan ID.
+ *
+ * Output is buffered per plan until a full line arrives, so lines from plans
+ * running in parallel never get spliced together.
+ */
+const createOutputPrinter = ({
+  planIds,
+  spinner,
+}: {
+  planIds: string[];
+  spinner: Ora;
+}): {
+  write: (planId: string, data: string) => void;
+  flush: (planId: string) => void;
+} => {
+  const prefixWidth = Math.min(
+    Math.max(0, ...planIds.map((id) => id.length)),
+    MAX_OUTPUT_PREFIX_WIDTH
+  );
+  const partialLines = new Map<string, string>();
+
+  const formatPrefix = (planId: string): string => {
+    const colorIndex = Math.max(0, planIds.indexOf(planId));
+    const colorFn = PLAN_OUTPUT_COLORS[colorIndex % PLAN_OUTPUT_COLORS.length];
+    const label =
+      planId.length > prefixWidth
+        ? `${planId.slice(0, prefixWidth - 1)}…`
+        : planId.padEnd(prefixWidth);
+    return `${colorFn(label)} ${chalk.dim('│')}`;
+  };
+
+  const printLines = (planId: string, lines: string[]): void => {
+    if (lines.length === 0) return;
+
+    // Move the spinner out of the way, then redraw it below the output
+    if (spinner.isSpinning) spinner.clear();
+    const prefix = formatPrefix(planId);
+    lines.forEach((line) => console.log(`${prefix} ${line.replace(/\r$/, '')}`));
+    if (spinner.isSpinning) spinner.render();
+  };
+
+  return {
+    write: (planId, data) => {
+      const lines = `${partialLines.get(planId) ?? ''}${data}`.split('\n');
+      partialLines.set(planId, lines.pop() ?? '');
+      printLines(planId, lines);
+    },
+    flush: (planId) => {
+      const remaining = partialLines.get(planId);
+      partialLines.delete(planId);
+      if (remaining) {
+        printLines(planId, [remaining]);
+      }
+    },
+  };
 };
 
 const formatDuration = (ms: number): string => {
@@ -1,8 +1,16 @@
 import chalk from 'chalk';
 import { loadStack, listStacks } from '../../core/stack-manager.js';
-import { loadStackStatus } from '../../storage/status-store.js';
+import {
+  isRunLockStale,
+  loadStackStatus,
+} from '../../storage/status-store.js';
 import { loadPlanById } from '../../core/plan-parser.js';
-import type { ExecutionStatus } from '../../types/index.js';
+import { markStalePlans } from '../../core/stale-plans.js';
+import type {
+  ClaudeRunSummary,
+  ExecutionStatus,
+  PlanExecutionStatus,
+} from '../../types/index.js';
 
 const STATUS_LABELS: Record<ExecutionStatus, string> = {
   pending: 'pending',
@@ -10,6 +18,9 @@ const STATUS_LABELS: Record<ExecutionStatus, string> = {
   completed: 'completed',
   failed: 'failed',
   skipped: 'skipped',
+  interrupted: 'interrupt',
+  stale: 'stale',
+  awaiting_approval: 'awaiting',
 };
 
 const STATUS_COLORS: Record<ExecutionStatus, (text: string) => string> = {
@@ -18,6 +29,15 @@ const STATUS_COLORS: Record<ExecutionStatus, (text: string) => string> = {
   completed: chalk.green,
   failed: chalk.red,
   skipped: chalk.dim,
+  interrupted: chalk.magenta,
+  stale: chalk.cyan,
+  awaiting_approval: chalk.blue,
+};
+
+const VERIFY_OUTPUT_TAIL_LINES = 5;
+
+type ClaudeUsage = Omit<ClaudeRunSummary, 'sessionId' | 'resultText'> & {
+  sessionId?: string | null;
 };
 
 export const statusCommand = async ({
@@ -46,6 +66,7 @@ const showAllStacksStatus = async (): Promise<void> => {
   for (const stack of stacks) {
     const planIds = stack.plans.map((p) => p.planId);
     const status = await loadStackStatus({ stackName: stack.stackName, planIds });
+    await markStalePlans({ stack, status });
 
     const counts = {
       pending: 0,
@@ -53,6 +74,9 @@ const showAllStacksStatus = async (): Promise<void> => {
       completed: 0,
       failed: 0,
       skipped: 0,
+      interrupted: 0,
+      stale: 0,
+      awaiting_approval: 0,
     };
 
     Object.values(status.planStatuses).forEach((ps) => {
@@ -64,7 +88,7 @@ const showAllStacksStatus = async (): Promise<void> => {
 
     console.log(`${chalk.cyan(stack.stackName)} ${progressBar}`);
     console.log(
-      `  ${chalk.green(`✓ ${counts.completed}`)} ${chalk.red(`✗ ${counts.failed}`)} ${chalk.yellow(`◉ ${counts.running}`)} ${chalk.gray(`◯ ${counts.pending}`)} ${chalk.dim(`○ ${counts.skipped}`)}`
+      `  ${chalk.green(`✓ ${counts.completed}`)} ${chalk.red(`✗ ${counts.failed}`)} ${chalk.yellow(`◉ ${counts.running}`)} ${chalk.gray(`◯ ${counts.pending}`)} ${chalk.dim(`○ ${counts.skipped}`)}${counts.interrupted > 0 ? ` ${chalk.magenta(`⊘ ${counts.interrupted}`)}` : ''}${counts.stale > 0 ? ` ${chalk.cyan(`◐ ${counts.stale}`)}` : ''}${counts.awaiting_approval > 0 ? ` ${chalk.blue(`⏸ ${counts.awaiting_approval}`)}` : ''}`
     );
 
     if (status.lastRunAt) {
@@ -72,6 +96,11 @@ const showAllStacksStatus = async (): Promise<void> => {
       console.log(chalk.dim(`  Last run: ${lastRun.toLocaleString()}`));
     }
 
+    const usage = sumClaudeUsage(Object.values(status.planStatuses));
+    if (usage) {
+      console.log(chalk.dim(`  Cost: ${formatCost(usage.costUsd)}`));
+    }
+
     console.log();
   }
 };
@@ -90,6 +119,7 @@ const showStackStatus = async ({
 
   const planIds = stack.plans.map((p) => p.planId);
   const status = await loadStackStatus({ stackName, planIds });
+  await markStalePlans({ stack, status });
 
   console.log(chalk.bold(`Stack: ${stackName}`));
   if (stack.stackDescription) {
@@ -97,8 +127,16 @@ const showStackStatus = async ({
   }
   console.log();
 
-  if (status.isRunning) {
-    console.log(chalk.yellow('⚡ Currently running'));
+  if (isRunLockStale({ status })) {
+    console.log(chalk.red('⚠ Stale run lock: the run that locked this stack is gone'));
+    console.log(chalk.dim(`  Clear it with: cc unlock ${stackName}`));
+    console.log();
+  } else if (status.isRunning) {
+    const { runLock } = status;
+    console.log(
+      chalk.yellow('⚡ Currently running') +
+        (runLock ? chalk.dim(` (PID ${runLock.pid} on ${runLock.hostname})`) : '')
+    );
     console.log();
   }
 
@@ -141,10 +179,57 @@ const showStackStatus = async ({
       );
     }
 
+    if (planStatus?.claudeRun) {
+      console.log(
+        chalk.dim(`             Claude: ${formatClaudeUsage(planStatus.claudeRun)}`)
+      );
+    } else if (planStatus?.sessionId) {
+      console.log(chalk.dim(`             Session: ${planStatus.sessionId}`));
+    }
+
     if (planStatus?.errorMessage && executionStatus === 'failed') {
       console.log(chalk.red(`             Error: ${planStatus.errorMessage}`));
     }
 
+    if (executionStatus === 'awaiting_approval') {
+      console.log(
+        chalk.blue(`             Approve with: cc approve ${stackName} ${stackPlan.planId}`)
+      );
+    }
+
+    const verification = planStatus?.verification ?? [];
+    if (verification.length > 0) {
+      const checks = verification
+        .map((check) =>
+          check.passed
+            ? chalk.green(`✓ ${check.command}`)
+            : chalk.red(`✗ ${check.command}`)
+        )
+        .join('  ');
+      console.log(`${chalk.dim('             Verify:')} ${checks}`);
+
+      const failedCheck = verification.find(
+        (check) => check.command === planStatus?.failedVerifyCommand
+      );
+      failedCheck?.output
+        .trimEnd()
+        .split('\n')
+        .slice(-VERIFY_OUTPUT_TAIL_LINES)
+        .forEach((line) => console.log(chalk.dim(`               ${line}`)));
+    }
+
+    const attempts = planStatus?.attempts ?? [];
+    if (attempts.length > 1) {
+      console.log(chalk.dim(`             Attempts: ${attempts.length}`));
+      attempts
+        .filter((attempt) => attempt.errorMessage)
+        .forEach((attempt) => {
+          console.log(
+            chalk.dim(`               ${attempt.attempt}. ${attempt.errorMessage}`)
+          );
+        });
+    }
+
     console.log();
   }
 
@@ -155,6 +240,9 @@ const showStackStatus = async ({
     completed: 0,
     failed: 0,
     skipped: 0,
+    interrupted: 0,
+    stale: 0,
+    awaiting_approval: 0,
   };
 
   Object.values(status.planStatuses).forEach((ps) => {
@@ -166,8 +254,64 @@ const showStackStatus = async ({
     `Total: ${stack.plans.length} plans | ` +
       `${chalk.green(`${counts.completed} completed`)} | ` +
       `${chalk.red(`${counts.failed} failed`)} | ` +
-      `${chalk.gray(`${counts.pending} pending`)}`
+      `${chalk.gray(`${counts.pending} pending`)}` +
+      (counts.interrupted > 0
+        ? ` | ${chalk.magenta(`${counts.interrupted} interrupted`)}`
+        : '') +
+      (counts.stale > 0 ? ` | ${chalk.cyan(`${counts.stale} stale`)}` : '') +
+      (counts.awaiting_approval > 0
+        ? ` | ${chalk.blue(`${counts.awaiting_approval} awaiting approval`)}`
+        : '')
   );
+
+  const usage = sumClaudeUsage(
+    planIds
+      .map((planId) => status.planStatuses[planId])
+      .filter((planStatus) => planStatus !== undefined)
+  );
+  if (usage) {
+    console.log(`Claude: ${formatClaudeUsage(usage)}`);
+  }
+};
+
+/**
+ * Add up the Claude usage recorded for plans, or null if none was recorded
+ */
+const sumClaudeUsage = (
+  planStatuses: PlanExecutionStatus[]
+): ClaudeUsage | null => {
+  const runs = planStatuses
+    .map((planStatus) => planStatus.claudeRun)
+    .filter((run): run is ClaudeRunSummary => !!run);
+
+  if (runs.length === 0) return null;
+
+  return runs.reduce(
+    (total, run) => ({
+      costUsd: total.costUsd + run.costUsd,
+      inputTokens: total.inputTokens + run.inputTokens,
+      outputTokens: total.outputTokens + run.outputTokens,
+      numTurns: total.numTurns + run.numTurns,
+    }),
+    { costUsd: 0, inputTokens: 0, outputTokens: 0, numTurns: 0 }
+  );
+};
+
+const formatClaudeUsage = (usage: ClaudeUsage): string =>
+  [
+    formatCost(usage.costUsd),
+    `${formatTokens(usage.inputTokens)} in / ${formatTokens(usage.outputTokens)} out`,
+    `${usage.numTurns} ${usage.numTurns === 1 ? 'turn' : 'turns'}`,
+    ...(usage.sessionId ? [`session ${usage.sessionId}`] : []),
+  ].join(' · ');
+
+const formatCost = (usd: number): string =>
+  `$${usd.toFixed(usd > 0 && usd < 1 ? 4 : 2)}`;
+
+const formatTokens = (tokens: number): string => {
+  if (tokens < 1000) return `${tokens}`;
+  if (tokens < 1000000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1000000).toFixed(2)}M`;
 };
 
 const createProgressBar = ({
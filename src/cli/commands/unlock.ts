@@ -0,0 +1,79 @@
+import chalk from 'chalk';
+import { loadStack, updateStackPlanStatus } from '../../core/stack-manager.js';
+import {
+  clearRunLock,
+  isRunLockStale,
+  loadStackStatus,
+} from '../../storage/status-store.js';
+import { markRunInterrupted } from '../../storage/history-store.js';
+
+interface UnlockOptions {
+  force?: boolean;
+}
+
+/**
+ * Clear a stack's run lock left behind by a crashed or killed `cc run`
+ */
+export const unlockCommand = async ({
+  stackName,
+  options,
+}: {
+  stackName: string;
+  options: UnlockOptions;
+}): Promise<void> => {
+  const stack = await loadStack({ stackName });
+
+  if (!stack) {
+    console.log(chalk.red(`Stack '${stackName}' not found.`));
+    return;
+  }
+
+  const planIds = stack.plans.map((p) => p.planId);
+  const status = await loadStackStatus({ stackName, planIds });
+  const { runLock } = status;
+
+  if (status.isRunning && !isRunLockStale({ status }) && !options.force) {
+    console.log(
+      chalk.yellow(
+        `Stack '${stackName}' is still running (PID ${runLock?.pid} on ${runLock?.hostname}).`
+      )
+    );
+    console.log(
+      chalk.dim('Stop that run first, or use --force if you are sure it is gone.')
+    );
+    return;
+  }
+
+  const resetPlanIds = await clearRunLock({ stackName, planIds });
+
+  // The run that held the lock never recorded how it ended
+  const interruptedRunId =
+    status.isRunning &&
+    status.lastRunId &&
+    (await markRunInterrupted({ stackName, runId: status.lastRunId }))
+      ? status.lastRunId
+      : null;
+
+  for (const planId of resetPlanIds) {
+    await updateStackPlanStatus({
+      stackName,
+      planId,
+      updates: { executionStatus: 'pending' },
+    });
+  }
+
+  if (!status.isRunning && resetPlanIds.length === 0) {
+    console.log(chalk.gray(`Stack '${stackName}' is not locked.`));
+    return;
+  }
+
+  console.log(chalk.green(`✓ Unlocked stack '${stackName}'`));
+
+  if (resetPlanIds.length > 0) {
+    console.log(chalk.dim(`Reset to pending: ${resetPlanIds.join(', ')}`));
+  }
+
+  if (interruptedRunId) {
+    console.log(chalk.dim(`Marked run ${interruptedRunId} as interrupted`));
+  }
+};
@@ -5,10 +5,40 @@ import {
   createCommand,
   statusCommand,
   runCommand,
+  logsCommand,
+  configCommand,
+  branchesCommand,
+  unlockCommand,
+  retryCommand,
+  approveCommand,
+  historyCommand,
 } from './commands/index.js';
 
 const program = new Command();
 
+/**
+ * Add the options shared by every command that runs a stack
+ */
+const addRunOptions = (command: Command): Command =>
+  command
+    .option('--claude <command>', 'Claude CLI command to use (default: claude)')
+    .option(
+      '-c, --concurrency <n>',
+      'Maximum number of plans to run in parallel (default: 1)'
+    )
+    .option('-v, --verbose', 'Stream plan output live, prefixed by plan ID')
+    .option('--timeout <duration>', 'Default per-plan timeout (e.g. 30m, 1h)')
+    .option('--retries <n>', 'Default number of retries for failed plans')
+    .option('--git', 'Run each plan on its own stacked git branch and commit its changes')
+    .option('--worktrees', 'Run each plan in its own git worktree and merge it into an integration branch')
+    .option('--keep-worktrees', 'Keep plan worktrees after the run for inspection')
+    .option('--fail-fast', 'Stop the whole stack as soon as a plan fails')
+    .option('--keep-going', 'Keep running plans that do not depend on a failed one (default)')
+    .option('--confirm-each', 'Ask for approval before every plan, not just gated ones')
+    .option('--max-duration <duration>', 'Stop the run and skip remaining plans after this long (e.g. 2h)')
+    .option('--max-cost <usd>', 'Stop the run and skip remaining plans once Claude spend reaches this many USD')
+    .option('--var <key=value...>', 'Set a template variable for {{vars.key}} in plan content');
+
 program
   .name('cc')
   .description('Claude Stack - Graphite-like plan stack manager for Claude Code')
@@ -47,17 +77,89 @@ program
     await statusCommand({ stackName });
   });
 
-program
-  .command('run <stack>')
-  .description('Execute plans in a stack in dependency order')
-  .option('--dry-run', 'Show execution order without running')
-  .option('--from <planId>', 'Start execution from a specific plan')
-  .option('--reset', 'Reset all plan statuses before running')
-  .option('--claude <command>', 'Claude CLI command to use (default: claude)')
+addRunOptions(
+  program
+    .command('run <stack>')
+    .description('Execute plans in a stack in dependency order')
+    .option('--dry-run', 'Show execution order without running')
+    .option('--from <planId>', 'Start execution from a specific plan')
+    .option('--only <planIds...>', 'Only run these plans')
+    .option('--until <planId>', 'Run a plan and everything it depends on')
+    .option('--descendants-of <planId>', 'Run a plan and everything that depends on it')
+    .option('--failed', 'Rerun plans that failed or were skipped')
+    .option('--reset', 'Reset all plan statuses before running')
+)
+  .option('-w, --watch', 'After the run, rerun changed plans and their dependents on every edit')
+  .option('--show-prompt', 'With --dry-run, print the rendered prompt of each plan')
   .action(async (stackName: string, options) => {
     await runCommand({ stackName, options });
   });
 
+addRunOptions(
+  program
+    .command('retry <stack> <plan>')
+    .description("Resume a plan's last Claude session, then run its dependents")
+    .option('-m, --message <text>', 'Follow-up message to send to Claude')
+).action(async (stackName: string, planId: string, options) => {
+  await retryCommand({ stackName, planId, options });
+});
+
+addRunOptions(
+  program
+    .command('approve <stack> <plan>')
+    .description('Approve a gated plan, then continue the run')
+    .option('--no-run', 'Only record the approval')
+).action(async (stackName: string, planId: string, options) => {
+  await approveCommand({ stackName, planId, options });
+});
+
+program
+  .command('logs <stack> [plan]')
+  .description('Show the output of plans from a run')
+  .option('-n, --tail <lines>', 'Only show the last N lines of each log')
+  .option('-f, --follow', 'Keep printing output while the run is in progress')
+  .option('--run <id>', 'Show logs from a specific run (default: latest)')
+  .action(async (stackName: string, planId: string | undefined, options) => {
+    await logsCommand({ stackName, planId, options });
+  });
+
+program
+  .command('history <stack> [runId]')
+  .description('List past runs of a stack, or show one run in detail')
+  .action(async (stackName: string, runId: string | undefined) => {
+    await historyCommand({ stackName, runId });
+  });
+
+program
+  .command('branches <stack>')
+  .description('Show the git branch stack created by cc run --git')
+  .action(async (stackName: string) => {
+    await branchesCommand({ stackName });
+  });
+
+program
+  .command('unlock <stack>')
+  .description('Clear a stale run lock and reset plans stuck in running')
+  .option('--force', 'Unlock even if the run still appears to be alive')
+  .action(async (stackName: string, options) => {
+    await unlockCommand({ stackName, options });
+  });
+
+program
+  .command('config <stack> [key] [value]')
+  .description('Show or change stack settings (keys use dot notation)')
+  .option('--unset', 'Remove the setting')
+  .action(
+    async (
+      stackName: string,
+      key: string | undefined,
+      value: string | undefined,
+      options
+    ) => {
+      await configCommand({ stackName, key, value, options });
+    }
+  );
+
 export const run = (): void => {
   program.parse();
 };
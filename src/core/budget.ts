@@ -0,0 +1,81 @@
+import { parseDuration } from './duration.js';
+import type { BudgetSettings } from '../types/index.js';
+
+export interface StackBudget {
+  maxDurationMs: number | null;
+  maxCostUsd: number | null;
+}
+
+export interface BudgetUsage extends StackBudget {
+  durationMs: number;
+  // Claude spend reported by plans in this run
+  costUsd: number;
+}
+
+const formatBudgetDuration = (ms: number): string => {
+  const minutes = ms / 60000;
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  return `${+(minutes / 60).toFixed(1)}h`;
+};
+
+/**
+ * Work out a run's budget. Limits passed to `cc run` win over the stack's
+ * `budget` settings. Throws if a setting is invalid.
+ */
+export const resolveStackBudget = ({
+  maxDurationMs,
+  maxCostUsd,
+  settings,
+}: {
+  maxDurationMs?: number | null;
+  maxCostUsd?: number | null;
+  settings?: BudgetSettings | null;
+}): StackBudget => {
+  const settingsDurationMs =
+    settings?.maxDuration !== undefined
+      ? parseDuration(settings.maxDuration)
+      : null;
+
+  if (settings?.maxDuration !== undefined && !settingsDurationMs) {
+    throw new Error(
+      `Invalid budget.maxDuration '${settings.maxDuration}': expected a duration such as 2h.`
+    );
+  }
+
+  if (
+    settings?.maxCost !== undefined &&
+    (typeof settings.maxCost !== 'number' || !(settings.maxCost > 0))
+  ) {
+    throw new Error(
+      `Invalid budget.maxCost '${settings.maxCost}': expected a positive number of USD.`
+    );
+  }
+
+  return {
+    maxDurationMs: maxDurationMs ?? settingsDurationMs,
+    maxCostUsd: maxCostUsd ?? settings?.maxCost ?? null,
+  };
+};
+
+/**
+ * Whether a run has any budget to enforce
+ */
+export const hasBudget = (budget: StackBudget): boolean =>
+  budget.maxDurationMs !== null || budget.maxCostUsd !== null;
+
+/**
+ * Describe the budget a run has used up, or return null while it is within
+ * both limits
+ */
+export const getBudgetExhaustedReason = (usage: BudgetUsage): string | null => {
+  if (usage.maxDurationMs !== null && usage.durationMs >= usage.maxDurationMs) {
+    return `duration budget of ${formatBudgetDuration(usage.maxDurationMs)} used up`;
+  }
+
+  if (usage.maxCostUsd !== null && usage.costUsd >= usage.maxCostUsd) {
+    return `cost budget of $${usage.maxCostUsd.toFixed(2)} used up`;
+  }
+
+  return null;
+};
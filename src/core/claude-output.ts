@@ -0,0 +1,147 @@
+import type { ClaudeRunSummary } from '../types/index.js';
+
+interface ClaudeUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+interface ClaudeContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+}
+
+interface ClaudeEvent {
+  type?: string;
+  subtype?: string;
+  session_id?: string;
+  message?: { content?: ClaudeContentBlock[] };
+  result?: string;
+  is_error?: boolean;
+  total_cost_usd?: number;
+  num_turns?: number;
+  usage?: ClaudeUsage;
+}
+
+export interface ParsedClaudeOutput {
+  summary: ClaudeRunSummary | null;
+  // Set when Claude reported an error in its result, e.g. 'error_max_turns'
+  errorSubtype: string | null;
+}
+
+export interface ClaudeOutputParser {
+  /** Feed raw output; returns the human-readable text for complete lines */
+  write: (chunk: string) => string;
+  finish: () => ParsedClaudeOutput;
+}
+
+const parseEvent = (line: string): ClaudeEvent | null => {
+  try {
+    const event = JSON.parse(line) as unknown;
+    return event !== null && typeof event === 'object'
+      ? (event as ClaudeEvent)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parse Claude's `json` or `stream-json` output as it arrives.
+ *
+ * Assistant text and tool calls are turned into readable text for live
+ * display, and the final `result` event provides the session, cost, usage and
+ * result text. Lines that aren't JSON (e.g. stderr) are passed through.
+ */
+export const createClaudeOutputParser = (): ClaudeOutputParser => {
+  let partialLine = '';
+  let sessionId: string | null = null;
+  let resultEvent: ClaudeEvent | null = null;
+  let sawAssistantText = false;
+
+  const describeLine = (line: string): string => {
+    if (line.trim() === '') return '';
+
+    const event = parseEvent(line);
+    if (!event) return `${line}\n`;
+
+    sessionId = event.session_id ?? sessionId;
+
+    if (event.type === 'assistant') {
+      return (event.message?.content ?? [])
+        .map((block) => {
+          if (block.type === 'text' && block.text) {
+            sawAssistantText = true;
+            return `${block.text}\n`;
+          }
+          return block.type === 'tool_use' ? `→ ${block.name}\n` : '';
+        })
+        .join('');
+    }
+
+    if (event.type === 'result') {
+      resultEvent = event;
+      // With `json` output the result is the only place the answer appears
+      return !sawAssistantText && event.result ? `${event.result}\n` : '';
+    }
+
+    return '';
+  };
+
+  return {
+    write: (chunk) => {
+      const lines = `${partialLine}${chunk}`.split('\n');
+      partialLine = lines.pop() ?? '';
+      return lines.map(describeLine).join('');
+    },
+    finish: () => {
+      describeLine(partialLine);
+      partialLine = '';
+
+      const result = resultEvent as ClaudeEvent | null;
+
+      if (!result && !sessionId) {
+        return { summary: null, errorSubtype: null };
+      }
+
+      const usage = result?.usage ?? {};
+
+      return {
+        summary: {
+          sessionId,
+          costUsd: result?.total_cost_usd ?? 0,
+          // Cached prompt tokens are still input the model processed
+          inputTokens:
+            (usage.input_tokens ?? 0) +
+            (usage.cache_creation_input_tokens ?? 0) +
+            (usage.cache_read_input_tokens ?? 0),
+          outputTokens: usage.output_tokens ?? 0,
+          numTurns: result?.num_turns ?? 0,
+          resultText: result?.result ?? null,
+        },
+        errorSubtype: result?.is_error ? (result.subtype ?? 'error') : null,
+      };
+    },
+  };
+};
+
+/**
+ * Add up Claude runs across attempts, keeping the latest session and result
+ */
+export const combineClaudeRuns = (
+  previous: ClaudeRunSummary | null,
+  next: ClaudeRunSummary | null
+): ClaudeRunSummary | null => {
+  if (!previous || !next) return next ?? previous;
+
+  return {
+    sessionId: next.sessionId ?? previous.sessionId,
+    costUsd: previous.costUsd + next.costUsd,
+    inputTokens: previous.inputTokens + next.inputTokens,
+    outputTokens: previous.outputTokens + next.outputTokens,
+    numTurns: previous.numTurns + next.numTurns,
+    resultText: next.resultText,
+  };
+};
@@ -0,0 +1,137 @@
+import type { ClaudeOutputFormat, ClaudeSettings } from '../types/index.js';
+
+/**
+ * Merge stack-level Claude defaults with a plan's own settings. Plan values
+ * win field by field; tool lists replace rather than extend the defaults.
+ */
+export const resolveClaudeSettings = ({
+  stackSettings,
+  planSettings,
+}: {
+  stackSettings?: ClaudeSettings | null;
+  planSettings?: ClaudeSettings | null;
+}): ClaudeSettings => ({ ...stackSettings, ...planSettings });
+
+const OUTPUT_FORMATS: ClaudeOutputFormat[] = ['text', 'json', 'stream-json'];
+
+const isStringList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Check resolved Claude settings, returning an error message if any are invalid
+ */
+export const validateClaudeSettings = (
+  settings: ClaudeSettings
+): string | null => {
+  const stringFields = ['model', 'permissionMode', 'appendSystemPrompt'] as const;
+
+  for (const field of stringFields) {
+    if (settings[field] !== undefined && typeof settings[field] !== 'string') {
+      return `Invalid claude.${field}: expected a string.`;
+    }
+  }
+
+  const listFields = ['allowedTools', 'disallowedTools'] as const;
+
+  for (const field of listFields) {
+    if (settings[field] !== undefined && !isStringList(settings[field])) {
+      return `Invalid claude.${field}: expected a list of tool names.`;
+    }
+  }
+
+  if (
+    settings.maxTurns !== undefined &&
+    (!Number.isInteger(settings.maxTurns) || settings.maxTurns < 1)
+  ) {
+    return `Invalid claude.maxTurns '${settings.maxTurns}': expected a positive integer.`;
+  }
+
+  if (
+    settings.outputFormat !== undefined &&
+    !OUTPUT_FORMATS.includes(settings.outputFormat)
+  ) {
+    return `Invalid claude.outputFormat '${settings.outputFormat}': expected one of ${OUTPUT_FORMATS.join(', ')}.`;
+  }
+
+  return null;
+};
+
+/**
+ * Whether Claude's output is JSON that should be parsed rather than shown as-is
+ */
+export const isStructuredOutput = (settings: ClaudeSettings): boolean =>
+  settings.outputFormat === 'json' || settings.outputFormat === 'stream-json';
+
+/**
+ * Translate Claude settings into CLI flags
+ */
+export const buildClaudeFlags = (settings: ClaudeSettings): string[] => [
+  ...(settings.model ? ['--model', settings.model] : []),
+  ...(settings.permissionMode
+    ? ['--permission-mode', settings.permissionMode]
+    : []),
+  ...(settings.allowedTools?.length
+    ? ['--allowedTools', settings.allowedTools.join(',')]
+    : []),
+  ...(settings.disallowedTools?.length
+    ? ['--disallowedTools', settings.disallowedTools.join(',')]
+    : []),
+  ...(settings.maxTurns !== undefined
+    ? ['--max-turns', String(settings.maxTurns)]
+    : []),
+  ...(settings.appendSystemPrompt
+    ? ['--append-system-prompt', settings.appendSystemPrompt]
+    : []),
+  ...(settings.outputFormat && settings.outputFormat !== 'text'
+    ? ['--output-format', settings.outputFormat]
+    : []),
+  // Claude only streams events in print mode when verbose
+  ...(settings.outputFormat === 'stream-json' ? ['--verbose'] : []),
+];
+
+/**
+ * Build the arguments for a non-interactive Claude run of `prompt`.
+ *
+ * A new run uses `sessionId` for its session so it can be resumed later;
+ * with `resumeSessionId`, `prompt` is sent as a follow-up in that session.
+ */
+export const buildClaudeArgs = ({
+  prompt,
+  settings,
+  sessionId,
+  resumeSessionId,
+}: {
+  prompt: string;
+  settings: ClaudeSettings;
+  sessionId?: string;
+  resumeSessionId?: string;
+}): string[] => [
+  ...(resumeSessionId
+    ? ['--resume', resumeSessionId]
+    : sessionId
+      ? ['--session-id', sessionId]
+      : []),
+  '-p',
+  prompt,
+  ...buildClaudeFlags(settings),
+];
+
+/**
+ * Quote an argument for a POSIX shell, leaving simple words untouched
+ */
+export const quoteShellArg = (arg: string): string =>
+  /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Build the shell command line for a command and its arguments.
+ *
+ * The command itself is left as-is so it can include its own arguments
+ * (e.g. `npx claude`); every argument is quoted.
+ */
+export const formatCommandLine = ({
+  command,
+  args,
+}: {
+  command: string;
+  args: string[];
+}): string => [command, ...args.map(quoteShellArg)].join(' ');
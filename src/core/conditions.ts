@@ -0,0 +1,208 @@
+import type { ExecutionStatus } from '../types/index.js';
+
+type ConditionKeyword = 'on_success' | 'on_failure' | 'always';
+type DependencyOutcome = 'succeeded' | 'failed' | 'skipped';
+
+type ConditionNode =
+  | { type: 'keyword'; keyword: ConditionKeyword }
+  | { type: 'outcome'; planId: string; outcome: DependencyOutcome }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'and' | 'or'; left: ConditionNode; right: ConditionNode };
+
+export const DEFAULT_CONDITION: ConditionKeyword = 'on_success';
+
+const CONDITION_KEYWORDS: ConditionKeyword[] = ['on_success', 'on_failure', 'always'];
+
+const OUTCOME_STATUSES: Record<DependencyOutcome, ExecutionStatus> = {
+  succeeded: 'completed',
+  failed: 'failed',
+  skipped: 'skipped',
+};
+
+const TOKEN_PATTERN = /\s*(\(|\)|!|&&|\|\||[^\s()!&|]+)/y;
+
+const tokenize = (expression: string): string[] => {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+
+    if (!match) {
+      if (expression.slice(start).trim() === '') break;
+      throw new Error(`unexpected '${expression.slice(start).trim()[0]}'`);
+    }
+
+    tokens.push(match[1]);
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse a `when` condition: a keyword, or an expression such as
+ * `investigate.failed && !setup.skipped` using `&&`, `||`, `!` and parentheses
+ */
+const parseCondition = (when: string): ConditionNode => {
+  const tokens = tokenize(when);
+  let position = 0;
+
+  const parseAtom = (): ConditionNode => {
+    const token = tokens[position++];
+
+    if (token === undefined) throw new Error('unexpected end of condition');
+
+    if (token === '!') {
+      return { type: 'not', operand: parseAtom() };
+    }
+
+    if (token === '(') {
+      const node = parseOr();
+      if (tokens[position++] !== ')') throw new Error("missing ')'");
+      return node;
+    }
+
+    if (CONDITION_KEYWORDS.includes(token as ConditionKeyword)) {
+      return { type: 'keyword', keyword: token as ConditionKeyword };
+    }
+
+    const separatorIndex = token.lastIndexOf('.');
+    const planId = token.slice(0, separatorIndex);
+    const outcome = token.slice(separatorIndex + 1);
+
+    if (separatorIndex <= 0 || !(outcome in OUTCOME_STATUSES)) {
+      throw new Error(
+        `'${token}' should be <plan>.succeeded, <plan>.failed or <plan>.skipped`
+      );
+    }
+
+    return { type: 'outcome', planId, outcome: outcome as DependencyOutcome };
+  };
+
+  const parseAnd = (): ConditionNode => {
+    let node = parseAtom();
+    while (tokens[position] === '&&') {
+      position++;
+      node = { type: 'and', left: node, right: parseAtom() };
+    }
+    return node;
+  };
+
+  const parseOr = (): ConditionNode => {
+    let node = parseAnd();
+    while (tokens[position] === '||') {
+      position++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const node = parseOr();
+
+  if (position < tokens.length) {
+    throw new Error(`unexpected '${tokens[position]}'`);
+  }
+
+  return node;
+};
+
+const getReferencedPlanIds = (node: ConditionNode): string[] => {
+  switch (node.type) {
+    case 'keyword':
+      return [];
+    case 'outcome':
+      return [node.planId];
+    case 'not':
+      return getReferencedPlanIds(node.operand);
+    default:
+      return [
+        ...getReferencedPlanIds(node.left),
+        ...getReferencedPlanIds(node.right),
+      ];
+  }
+};
+
+/**
+ * Whether a plan runs only when all of its dependencies have completed,
+ * which is the behavior without a `when` condition
+ */
+export const isDefaultCondition = (when: string | null): boolean =>
+  !when || when.trim() === DEFAULT_CONDITION;
+
+/**
+ * Check a plan's `when` condition, returning an error message if it is
+ * invalid or refers to plans it does not depend on
+ */
+export const validateCondition = ({
+  when,
+  dependsOnPlanIds,
+}: {
+  when: string;
+  dependsOnPlanIds: string[];
+}): string | null => {
+  if (typeof when !== 'string') {
+    return `Invalid when '${when}': expected a string.`;
+  }
+
+  let node: ConditionNode;
+
+  try {
+    node = parseCondition(when);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'parse error';
+    return `Invalid when '${when}': ${reason}.`;
+  }
+
+  const unknownPlanId = getReferencedPlanIds(node).find(
+    (planId) => !dependsOnPlanIds.includes(planId)
+  );
+
+  return unknownPlanId
+    ? `Invalid when '${when}': '${unknownPlanId}' is not a dependency of this plan.`
+    : null;
+};
+
+/**
+ * Evaluate a plan's `when` condition once all of its dependencies have
+ * finished.
+ *
+ * `on_success` needs every dependency except soft ones to have completed,
+ * `on_failure` at least one to have failed, and `always` runs whatever
+ * happened.
+ */
+export const evaluateCondition = ({
+  when,
+  dependencyStatuses,
+  softDependsOnPlanIds = [],
+}: {
+  when: string | null;
+  dependencyStatuses: Record<string, ExecutionStatus>;
+  softDependsOnPlanIds?: string[];
+}): boolean => {
+  const statuses = Object.values(dependencyStatuses);
+  const hardStatuses = Object.entries(dependencyStatuses)
+    .filter(([planId]) => !softDependsOnPlanIds.includes(planId))
+    .map(([, status]) => status);
+
+  const evaluate = (node: ConditionNode): boolean => {
+    switch (node.type) {
+      case 'keyword':
+        return node.keyword === 'always'
+          ? true
+          : node.keyword === 'on_failure'
+            ? statuses.includes('failed')
+            : hardStatuses.every((status) => status === 'completed');
+      case 'outcome':
+        return dependencyStatuses[node.planId] === OUTCOME_STATUSES[node.outcome];
+      case 'not':
+        return !evaluate(node.operand);
+      case 'and':
+        return evaluate(node.left) && evaluate(node.right);
+      case 'or':
+        return evaluate(node.left) || evaluate(node.right);
+    }
+  };
+
+  return evaluate(parseCondition(when ?? DEFAULT_CONDITION));
+};
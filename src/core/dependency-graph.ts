@@ -1,4 +1,8 @@
-import type { Plan, StackPlan } from '../types/index.js';
+import type {
+  Plan,
+  PlanExecutionStatus,
+  StackPlan,
+} from '../types/index.js';
 
 interface DependencyNode {
   planId: string;
@@ -6,6 +10,13 @@ interface DependencyNode {
   dependentPlanIds: string[];
 }
 
+export interface PlanSelection {
+  only?: string[];
+  until?: string;
+  descendantsOf?: string;
+  failed?: boolean;
+}
+
 interface TopologicalSortResult {
   sortedPlanIds: string[];
   hasCycle: boolean;
@@ -205,9 +216,15 @@ export const plansToStackPlans = ({
 
   return plans.map((plan) => {
     const node = graph.get(plan.planId);
+    const dependsOnPlanIds = node?.dependsOnPlanIds ?? [];
+    const softDependsOnPlanIds = dependsOnPlanIds.filter((depId) =>
+      plan.softReferences.includes(depId)
+    );
+
     return {
       planId: plan.planId,
-      dependsOnPlanIds: node?.dependsOnPlanIds ?? [],
+      dependsOnPlanIds,
+      ...(softDependsOnPlanIds.length > 0 && { softDependsOnPlanIds }),
       executionStatus: 'pending' as const,
       lastExecutedAt: null,
       executionDurationMs: null,
@@ -245,3 +262,115 @@ export const getExecutionOrder = ({
 
   return topologicalSort({ graph });
 };
+
+/**
+ * Get every plan that depends on `planId`, directly or transitively
+ */
+export const getDescendantPlanIds = ({
+  stackPlans,
+  planId,
+}: {
+  stackPlans: StackPlan[];
+  planId: string;
+}): string[] => {
+  const descendantPlanIds = new Set<string>();
+  const pending = [planId];
+
+  while (pending.length > 0) {
+    const currentId = pending.pop() as string;
+
+    stackPlans
+      .filter((stackPlan) => stackPlan.dependsOnPlanIds.includes(currentId))
+      .forEach((stackPlan) => {
+        if (!descendantPlanIds.has(stackPlan.planId)) {
+          descendantPlanIds.add(stackPlan.planId);
+          pending.push(stackPlan.planId);
+        }
+      });
+  }
+
+  return [...descendantPlanIds];
+};
+
+/**
+ * Get every plan that `planId` depends on, directly or transitively
+ */
+export const getAncestorPlanIds = ({
+  stackPlans,
+  planId,
+}: {
+  stackPlans: StackPlan[];
+  planId: string;
+}): string[] => {
+  const ancestorPlanIds = new Set<string>();
+  const pending = [planId];
+
+  while (pending.length > 0) {
+    const currentId = pending.pop() as string;
+    const stackPlan = stackPlans.find((sp) => sp.planId === currentId);
+
+    stackPlan?.dependsOnPlanIds.forEach((depId) => {
+      if (!ancestorPlanIds.has(depId)) {
+        ancestorPlanIds.add(depId);
+        pending.push(depId);
+      }
+    });
+  }
+
+  return [...ancestorPlanIds];
+};
+
+/**
+ * Resolve a selection of plans to run, or null when nothing was selected.
+ *
+ * `only` picks plans by ID, `until` a plan and its ancestors,
+ * `descendantsOf` a plan and everything downstream of it, and `failed` the
+ * plans that failed or were skipped. Combined options select the plans that
+ * every one of them picks.
+ */
+export const selectPlanIds = ({
+  stackPlans,
+  selection,
+  planStatuses = {},
+}: {
+  stackPlans: StackPlan[];
+  selection: PlanSelection;
+  planStatuses?: Record<string, PlanExecutionStatus>;
+}): string[] | null => {
+  const selections: string[][] = [];
+
+  if (selection.only?.length) {
+    selections.push(selection.only);
+  }
+
+  if (selection.until) {
+    selections.push([
+      selection.until,
+      ...getAncestorPlanIds({ stackPlans, planId: selection.until }),
+    ]);
+  }
+
+  if (selection.descendantsOf) {
+    selections.push([
+      selection.descendantsOf,
+      ...getDescendantPlanIds({ stackPlans, planId: selection.descendantsOf }),
+    ]);
+  }
+
+  if (selection.failed) {
+    selections.push(
+      stackPlans
+        .map((sp) => sp.planId)
+        .filter((planId) => {
+          const executionStatus = planStatuses[planId]?.executionStatus;
+          return executionStatus === 'failed' || executionStatus === 'skipped';
+        })
+    );
+  }
+
+  if (selections.length === 0) return null;
+
+  return stackPlans
+    .map((sp) => sp.planId)
+    .filter((planId) => selections.every((planIds) => planIds.includes(planId)));
+};
@@ -0,0 +1,36 @@
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration into milliseconds.
+ *
+ * Accepts plain numbers (seconds) or strings such as '90s', '10m', '1h30m'
+ * and '500ms'. Returns null when the value cannot be parsed.
+ */
+export const parseDuration = (value: string | number): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value * 1000 : null;
+  }
+
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const parts = [...trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)];
+  const matchedText = parts.map((part) => part[0]).join('');
+
+  if (parts.length === 0 || matchedText !== trimmed) {
+    return null;
+  }
+
+  return parts.reduce(
+    (total, [, amount, unit]) => total + Number(amount) * UNIT_MS[unit],
+    0
+  );
+};
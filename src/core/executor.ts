@@ -1,15 +1,89 @@
-import { spawn } from 'child_process';
+import { spawn, type ChildProcess } from 'child_process';
 import { loadPlanById } from './plan-parser.js';
 import { loadStack, updateStackPlanStatus } from './stack-manager.js';
 import { getExecutionOrder } from './dependency-graph.js';
+import { parseDuration } from './duration.js';
+import { buildPlanPrompt, type DependencyOutput } from './prompt.js';
+import {
+  renderPlanTemplate,
+  resolveTemplateVars,
+  type TemplateContext,
+} from './template.js';
+import {
+  combineClaudeRuns,
+  createClaudeOutputParser,
+} from './claude-output.js';
+import { createPlanRunner, type PlanRunner } from './runner.js';
+import { hashPlanContent, markStalePlans } from './stale-plans.js';
+import {
+  getBudgetExhaustedReason,
+  hasBudget,
+  resolveStackBudget,
+  type BudgetUsage,
+} from './budget.js';
+import {
+  evaluateCondition,
+  isDefaultCondition,
+  validateCondition,
+} from './conditions.js';
+import {
+  getHookCommands,
+  resolveHookTimeout,
+  runHook,
+  type HookContext,
+  type HookName,
+} from './hooks.js';
+import {
+  cleanupPlanWorkspace,
+  finishPlanWorkspace,
+  finishStackGit,
+  prepareStackGit,
+  preparePlanWorkspace,
+  type PlanWorkspace,
+} from './workspace.js';
+import {
+  checkWorkingDirectory,
+  resolvePlanCwd,
+  resolvePlanEnv,
+  resolveStackRoot,
+} from './working-directory.js';
 import {
   loadStackStatus,
+  markPlansStale,
   updatePlanStatus,
   setStackRunning,
 } from '../storage/status-store.js';
-import type { ExecutionStatus, StackExecutionStatus } from '../types/index.js';
+import { loadConfig } from '../storage/config.js';
+import { pruneRunHistory, saveRunRecord } from '../storage/history-store.js';
+import {
+  appendPlanLog,
+  createRunId,
+  getLogRunId,
+  getPlanLogPath,
+  openPlanLog,
+  readPlanLog,
+} from '../storage/log-store.js';
+import type {
+  ClaudeRunSummary,
+  ClaudeSettings,
+  ExecutionStatus,
+  FailurePolicy,
+  Plan,
+  PlanAttempt,
+  RunnerSettings,
+  RunPlanResult,
+  RunRecord,
+  RunStatus,
+  StackExecutionStatus,
+  VerificationResult,
+} from '../types/index.js';
+
+const RETRY_BASE_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const KILL_GRACE_PERIOD_MS = 5000;
+const MAX_VERIFY_OUTPUT_CHARS = 4000;
 
-interface ExecutionCallbacks {
+export interface ExecutionCallbacks {
   onPlanStart?: (planId: string) => void;
   onPlanComplete?: (
     planId: string,
@@ -17,110 +91,733 @@ interface ExecutionCallbacks {
     durationMs: number
   ) => void;
   onPlanError?: (planId: string, error: string) => void;
+  onPlanRetry?: (
+    planId: string,
+    attempt: number,
+    error: string,
+    delayMs: number
+  ) => void;
   onOutput?: (planId: string, data: string) => void;
+  // Failures that don't change a plan's outcome, like end hooks and git cleanup
+  onHookError?: (planId: string | null, error: string) => void;
+  onStalePlans?: (planIds: string[]) => void;
+  // Claude spend of a plan so far, reported after each attempt
+  onPlanCost?: (planId: string, costUsd: number) => void;
+  // Plans whose runner can't report cost, so a cost budget doesn't see them
+  onUncostedPlans?: (planIds: string[]) => void;
+  // Without this, gated plans are left awaiting approval
+  onGate?: (request: GateRequest) => Promise<GateDecision>;
+}
+
+export type GateDecision = 'approve' | 'skip' | 'abort';
+
+export interface GateRequest {
+  planId: string;
+  title: string;
+  dependencyStatuses: Record<string, ExecutionStatus>;
+  commandLine: string;
 }
 
-interface ExecuteStackOptions {
+export interface ExecuteStackOptions {
   stackName: string;
   dryRun?: boolean;
   fromPlanId?: string;
   callbacks?: ExecutionCallbacks;
   claudeCommand?: string;
+  concurrency?: number;
+  timeoutMs?: number | null;
+  retries?: number;
+  retryDelayMs?: number;
+  git?: boolean;
+  worktrees?: boolean;
+  keepWorktrees?: boolean;
+  signal?: AbortSignal;
+  selectedPlanIds?: string[];
+  resume?: ResumeRequest | null;
+  failurePolicy?: FailurePolicy;
+  // Gate every plan, not just those with `gate: manual`
+  confirmEach?: boolean;
+  maxDurationMs?: number | null;
+  maxCostUsd?: number | null;
+  // Template variables from the command line, over the stack's `vars`
+  vars?: Record<string, string>;
+}
+
+export interface ResumeRequest {
+  planId: string;
+  sessionId: string;
+  message: string;
 }
 
-interface ExecutePlanResult {
+export interface ExecutePlanResult {
   planId: string;
   executionStatus: ExecutionStatus;
   exitCode: number | null;
   errorMessage: string | null;
   executionDurationMs: number;
   output: string;
+  logPath: string | null;
+  attempts: PlanAttempt[];
+  verification: VerificationResult[];
+  failedVerifyCommand: string | null;
+  claudeRun: ClaudeRunSummary | null;
+  sessionId: string | null;
+  contentHash: string | null;
 }
 
+interface AttemptResult {
+  exitCode: number | null;
+  errorMessage: string | null;
+  timedOut: boolean;
+  interrupted: boolean;
+  output: string;
+}
+
+const INTERRUPTED_MESSAGE = 'Interrupted';
+
+const toRunPlanResult = (result: ExecutePlanResult): RunPlanResult => ({
+  planId: result.planId,
+  executionStatus: result.executionStatus,
+  durationMs: result.executionDurationMs,
+  errorMessage: result.errorMessage,
+  exitCode: result.exitCode,
+  attempts: result.attempts.length,
+  costUsd: result.claudeRun?.costUsd ?? null,
+  logPath: result.logPath,
+});
+
+// Plan processes that are still running, so they can be killed on force quit
+const activeChildren = new Set<ChildProcess>();
+
+/**
+ * Send a signal to a detached child and every process in its process group
+ */
+const killProcessTree = (
+  child: ChildProcess,
+  signal: NodeJS.Signals
+): void => {
+  if (child.pid === undefined) return;
+
+  try {
+    process.kill(-child.pid, signal);
+  } catch {
+    // The group is already gone; fall back to the direct child
+    child.kill(signal);
+  }
+};
+
+/**
+ * Immediately kill every plan process that is still running.
+ *
+ * Used when the user force-quits, since the process exits before a graceful
+ * interrupt would have finished.
+ */
+export const killRunningPlans = (): void => {
+  activeChildren.forEach((child) => killProcessTree(child, 'SIGKILL'));
+};
+
+/**
+ * Wait for `ms`, returning early if the signal is aborted
+ */
+const sleep = ({
+  ms,
+  signal,
+}: {
+  ms: number;
+  signal?: AbortSignal;
+}): Promise<void> =>
+  new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Run a single attempt of a shell command line, killing it if it exceeds the
+ * timeout or the signal is aborted
+ */
+const runAttempt = ({
+  commandLine,
+  timeoutMs,
+  cwd,
+  env,
+  signal,
+  onOutput,
+  onError,
+}: {
+  commandLine: string;
+  timeoutMs: number | null;
+  cwd?: string;
+  env?: Record<string, string>;
+  signal?: AbortSignal;
+  onOutput: (text: string) => void;
+  onError: (message: string) => void;
+}): Promise<AttemptResult> =>
+  new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve({
+        exitCode: null,
+        errorMessage: INTERRUPTED_MESSAGE,
+        timedOut: false,
+        interrupted: true,
+        output: '',
+      });
+      return;
+    }
+
+    const outputChunks: string[] = [];
+    let timedOut = false;
+    let interrupted = false;
+    let killTimer: NodeJS.Timeout | null = null;
+
+    const handleOutput = (data: Buffer): void => {
+      const text = data.toString();
+      outputChunks.push(text);
+      onOutput(text);
+    };
+
+    // Detached so the child leads its own process group, which lets us kill
+    // the shell and everything it spawned in one go
+    const child = spawn(commandLine, {
+      cwd,
+      env: { ...process.env, ...env },
+      shell: true,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    activeChildren.add(child);
+
+    child.stdout?.on('data', handleOutput);
+    child.stderr?.on('data', handleOutput);
+
+    const terminate = (): void => {
+      if (killTimer) return;
+      killProcessTree(child, 'SIGTERM');
+      killTimer = setTimeout(
+        () => killProcessTree(child, 'SIGKILL'),
+        KILL_GRACE_PERIOD_MS
+      );
+    };
+
+    const timeoutTimer = timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          terminate();
+        }, timeoutMs)
+      : null;
+
+    const onAbort = (): void => {
+      interrupted = true;
+      terminate();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let settled = false;
+    const finish = (
+      result: Omit<AttemptResult, 'output' | 'interrupted'>
+    ): void => {
+      if (settled) return;
+      settled = true;
+
+      activeChildren.delete(child);
+      signal?.removeEventListener('abort', onAbort);
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      if (killTimer) clearTimeout(killTimer);
+
+      resolve({ ...result, interrupted, output: outputChunks.join('') });
+    };
+
+    child.on('error', (error) => {
+      onError(error.message);
+      finish({ exitCode: 1, errorMessage: error.message, timedOut: false });
+    });
+
+    child.on('close', (code) => {
+      if (interrupted) {
+        finish({
+          exitCode: code,
+          errorMessage: INTERRUPTED_MESSAGE,
+          timedOut: false,
+        });
+        return;
+      }
+
+      if (timedOut) {
+        finish({
+          exitCode: code,
+          errorMessage: `Timed out after ${Math.round((timeoutMs ?? 0) / 1000)}s`,
+          timedOut: true,
+        });
+        return;
+      }
+
+      finish({
+        exitCode: code,
+        errorMessage: code !== 0 ? `Process exited with code ${code}` : null,
+        timedOut: false,
+      });
+    });
+  });
+
+/**
+ * Run a plan's verify commands in order, stopping at the first one that fails
+ */
+const runVerification = async ({
+  commands,
+  cwd,
+  env,
+  signal,
+  onOutput,
+  onError,
+}: {
+  commands: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  signal?: AbortSignal;
+  onOutput: (text: string) => void;
+  onError: (message: string) => void;
+}): Promise<{
+  results: VerificationResult[];
+  failedCommand: string | null;
+  errorMessage: string | null;
+  interrupted: boolean;
+}> => {
+  const results: VerificationResult[] = [];
+
+  for (const command of commands) {
+    onOutput(`\n--- Verify: ${command} ---\n`);
+
+    const startTime = Date.now();
+    const commandResult = await runAttempt({
+      commandLine: command,
+      timeoutMs: null,
+      cwd,
+      env,
+      signal,
+      onOutput,
+      onError,
+    });
+    const passed = commandResult.errorMessage === null;
+
+    results.push({
+      command,
+      exitCode: commandResult.exitCode,
+      passed,
+      durationMs: Date.now() - startTime,
+      output: commandResult.output.slice(-MAX_VERIFY_OUTPUT_CHARS),
+    });
+
+    if (!passed) {
+      return {
+        results,
+        failedCommand: command,
+        errorMessage: commandResult.interrupted
+          ? commandResult.errorMessage
+          : `Verification failed: '${command}' exited with code ${commandResult.exitCode}`,
+        interrupted: commandResult.interrupted,
+      };
+    }
+  }
+
+  return { results, failedCommand: null, errorMessage: null, interrupted: false };
+};
+
+/**
+ * Exponential backoff delay before the given retry attempt (2, 3, ...)
+ */
+const getRetryDelayMs = ({
+  attempt,
+  retryDelayMs,
+}: {
+  attempt: number;
+  retryDelayMs: number;
+}): number =>
+  Math.min(retryDelayMs * 2 ** (attempt - 2), MAX_RETRY_DELAY_MS);
+
+const createFailedResult = ({
+  planId,
+  errorMessage,
+}: {
+  planId: string;
+  errorMessage: string;
+}): ExecutePlanResult => ({
+  planId,
+  executionStatus: 'failed',
+  exitCode: 1,
+  errorMessage,
+  executionDurationMs: 0,
+  output: '',
+  logPath: null,
+  attempts: [],
+  verification: [],
+  failedVerifyCommand: null,
+  claudeRun: null,
+  sessionId: null,
+  contentHash: null,
+});
+
+const createInterruptedResult = ({
+  planId,
+  logPath,
+}: {
+  planId: string;
+  logPath: string | null;
+}): ExecutePlanResult => ({
+  planId,
+  executionStatus: 'interrupted',
+  exitCode: null,
+  errorMessage: INTERRUPTED_MESSAGE,
+  executionDurationMs: 0,
+  output: '',
+  logPath,
+  attempts: [],
+  verification: [],
+  failedVerifyCommand: null,
+  claudeRun: null,
+  sessionId: null,
+  contentHash: null,
+});
+
 /**
- * Execute a single plan using claude -p
+ * Execute a single plan with its runner, `claude -p` unless the stack's
+ * `runnerSettings` or the plan's `runner` frontmatter choose another.
+ *
+ * For Claude, the plan's `claude` frontmatter is layered over the stack's
+ * `claudeSettings` and turned into CLI flags. With JSON output, Claude's
+ * events are parsed for live display and to record the session, cost and
+ * token usage.
+ *
+ * Each Claude attempt runs in a new session whose ID is recorded. With
+ * `resume`, the given session is continued with `resume.message` instead.
+ * When `logPath` is given, the combined stdout/stderr is written to that file
+ * as it arrives. Failed attempts are retried with exponential backoff; the
+ * plan's `timeout` and `retries` frontmatter override the defaults passed in.
+ * The plan's content is rendered as a template with `template` and the
+ * environment first; an undefined variable fails the plan. Any
+ * `dependencyOutputs` are appended to the prompt as context, and the
+ * process runs in `cwd` when given, with `env` added to its environment. The
+ * plan's `verify` commands run the same way after each successful attempt,
+ * and the attempt only succeeds if they all pass. Aborting `signal` kills
+ * the process and ends the plan as interrupted without further retries.
  */
 export const executePlan = async ({
   planId,
   claudeCommand = 'claude',
+  claudeSettings,
+  runnerSettings,
   callbacks,
+  logPath = null,
+  timeoutMs = null,
+  retries = 0,
+  retryDelayMs = RETRY_BASE_DELAY_MS,
+  dependencyOutputs = [],
+  maxCharsPerDependency,
+  cwd,
+  env,
+  signal,
+  resume,
+  template,
+  trackCost = false,
 }: {
   planId: string;
   claudeCommand?: string;
+  claudeSettings?: ClaudeSettings | null;
+  runnerSettings?: RunnerSettings | null;
   callbacks?: ExecutionCallbacks;
+  logPath?: string | null;
+  timeoutMs?: number | null;
+  retries?: number;
+  retryDelayMs?: number;
+  dependencyOutputs?: DependencyOutput[];
+  maxCharsPerDependency?: number;
+  cwd?: string;
+  env?: Record<string, string>;
+  signal?: AbortSignal;
+  resume?: Omit<ResumeRequest, 'planId'> | null;
+  template?: Omit<TemplateContext, 'planId' | 'planTitle' | 'env'>;
+  trackCost?: boolean;
 }): Promise<ExecutePlanResult> => {
   const plan = await loadPlanById({ planId });
 
   if (!plan) {
-    return {
+    return createFailedResult({
       planId,
-      executionStatus: 'failed',
-      exitCode: 1,
       errorMessage: `Plan '${planId}' not found.`,
-      executionDurationMs: 0,
-      output: '',
-    };
+    });
   }
 
-  const startTime = Date.now();
-  callbacks?.onPlanStart?.(planId);
-
-  return new Promise((resolve) => {
-    const outputChunks: string[] = [];
+  const planTimeoutMs =
+    plan.timeout !== null ? parseDuration(plan.timeout) : timeoutMs;
 
-    const process = spawn(claudeCommand, ['-p', plan.content], {
-      shell: true,
-      stdio: ['inherit', 'pipe', 'pipe'],
+  if (plan.timeout !== null && planTimeoutMs === null) {
+    return createFailedResult({
+      planId,
+      errorMessage: `Invalid timeout '${plan.timeout}' in plan frontmatter.`,
     });
+  }
 
-    process.stdout?.on('data', (data: Buffer) => {
-      const text = data.toString();
-      outputChunks.push(text);
-      callbacks?.onOutput?.(planId, text);
+  const maxRetries = plan.retries ?? retries;
+
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    return createFailedResult({
+      planId,
+      errorMessage: `Invalid retries '${maxRetries}' in plan frontmatter.`,
     });
+  }
 
-    process.stderr?.on('data', (data: Buffer) => {
-      const text = data.toString();
-      outputChunks.push(text);
-      callbacks?.onOutput?.(planId, text);
+  let runner: PlanRunner;
+
+  try {
+    runner = createPlanRunner({
+      plan,
+      runnerSettings,
+      claudeCommand,
+      claudeSettings,
+      trackCost,
+    });
+  } catch (error) {
+    return createFailedResult({
+      planId,
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
     });
+  }
 
-    process.on('error', (error) => {
-      const durationMs = Date.now() - startTime;
-      callbacks?.onPlanError?.(planId, error.message);
-      callbacks?.onPlanComplete?.(planId, 'failed', durationMs);
+  // Only runners with sessions can pick up where an earlier run left off
+  const resumeSession = runner.supportsResume ? resume : null;
 
-      resolve({
+  let content = plan.content;
+
+  if (template) {
+    try {
+      content = renderPlanTemplate({
+        content,
+        context: {
+          ...template,
+          planId,
+          planTitle: plan.title || planId,
+          env: { ...process.env, ...env },
+        },
+      });
+    } catch (error) {
+      return createFailedResult({
         planId,
-        executionStatus: 'failed',
-        exitCode: 1,
-        errorMessage: error.message,
-        executionDurationMs: durationMs,
-        output: outputChunks.join(''),
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
       });
+    }
+  }
+
+  const prompt = buildPlanPrompt({
+    plan: { ...plan, content },
+    dependencyOutputs,
+    maxCharsPerDependency,
+  });
+
+  const logStream = logPath ? await openPlanLog({ logPath }) : null;
+
+  const startTime = Date.now();
+  callbacks?.onPlanStart?.(planId);
+
+  const attempts: PlanAttempt[] = [];
+  const outputs: string[] = [];
+  const maxAttempts = maxRetries + 1;
+  let verification: VerificationResult[] = [];
+  let failedVerifyCommand: string | null = null;
+  let claudeRun: ClaudeRunSummary | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1) {
+      logStream?.write(`\n--- Attempt ${attempt} of ${maxAttempts} ---\n`);
+    }
+
+    const { commandLine, sessionId, structuredOutput } = runner.createAttempt({
+      prompt: resumeSession?.message ?? prompt,
+      attempt,
+      resumeSessionId: resumeSession?.sessionId,
+    });
+
+    if (resumeSession) {
+      logStream?.write(`--- Resuming session ${sessionId} ---\n`);
+    }
+
+    const handleOutput = (text: string): void => {
+      logStream?.write(text);
+      callbacks?.onOutput?.(planId, text);
+    };
+    const handleError = (message: string): void =>
+      callbacks?.onPlanError?.(planId, message);
+
+    // The log keeps Claude's raw output; only the display is parsed
+    const outputParser = structuredOutput ? createClaudeOutputParser() : null;
+
+    const attemptStartedAt = new Date();
+    const attemptResult = await runAttempt({
+      commandLine,
+      timeoutMs: planTimeoutMs,
+      cwd,
+      env,
+      signal,
+      onOutput: (text) => {
+        logStream?.write(text);
+        const displayText = outputParser ? outputParser.write(text) : text;
+        if (displayText) callbacks?.onOutput?.(planId, displayText);
+      },
+      onError: handleError,
     });
+    outputs.push(attemptResult.output);
 
-    process.on('close', (code) => {
-      const durationMs = Date.now() - startTime;
-      const executionStatus: ExecutionStatus =
-        code === 0 ? 'completed' : 'failed';
+    let { errorMessage, interrupted } = attemptResult;
 
-      callbacks?.onPlanComplete?.(planId, executionStatus, durationMs);
+    const parsedOutput = outputParser?.finish();
+    claudeRun = combineClaudeRuns(claudeRun, parsedOutput?.summary ?? null);
 
-      resolve({
-        planId,
-        executionStatus,
-        exitCode: code,
-        errorMessage: code !== 0 ? `Process exited with code ${code}` : null,
-        executionDurationMs: durationMs,
-        output: outputChunks.join(''),
+    if (claudeRun) {
+      callbacks?.onPlanCost?.(planId, claudeRun.costUsd);
+    }
+
+    if (errorMessage === null && parsedOutput?.errorSubtype) {
+      errorMessage = `Claude reported an error (${parsedOutput.errorSubtype})`;
+    }
+
+    verification = [];
+    failedVerifyCommand = null;
+
+    if (errorMessage === null && plan.verify.length > 0) {
+      const verifyResult = await runVerification({
+        commands: plan.verify,
+        cwd,
+        env,
+        signal,
+        onOutput: handleOutput,
+        onError: handleError,
       });
+
+      verification = verifyResult.results;
+      failedVerifyCommand = verifyResult.failedCommand;
+      errorMessage = verifyResult.errorMessage;
+      interrupted = verifyResult.interrupted;
+    }
+
+    attempts.push({
+      attempt,
+      startedAt: attemptStartedAt.toISOString(),
+      durationMs: Date.now() - attemptStartedAt.getTime(),
+      exitCode: attemptResult.exitCode,
+      errorMessage,
+      timedOut: attemptResult.timedOut,
+      sessionId,
     });
-  });
+
+    if (errorMessage === null || interrupted) {
+      break;
+    }
+
+    if (attempt < maxAttempts) {
+      const delayMs = getRetryDelayMs({ attempt: attempt + 1, retryDelayMs });
+      callbacks?.onPlanRetry?.(planId, attempt + 1, errorMessage, delayMs);
+      await sleep({ ms: delayMs, signal });
+
+      if (signal?.aborted) {
+        break;
+      }
+    }
+  }
+
+  const lastAttempt = attempts[attempts.length - 1];
+  const executionStatus: ExecutionStatus =
+    lastAttempt.errorMessage === null
+      ? 'completed'
+      : signal?.aborted
+        ? 'interrupted'
+        : 'failed';
+  const durationMs = Date.now() - startTime;
+
+  callbacks?.onPlanComplete?.(planId, executionStatus, durationMs);
+
+  if (logStream) {
+    await new Promise<void>((resolve) => logStream.end(resolve));
+  }
+
+  return {
+    planId,
+    executionStatus,
+    exitCode: lastAttempt.exitCode,
+    errorMessage:
+      executionStatus === 'interrupted'
+        ? INTERRUPTED_MESSAGE
+        : lastAttempt.errorMessage !== null && attempts.length > 1
+          ? `Failed after ${attempts.length} attempts: ${lastAttempt.errorMessage}`
+          : lastAttempt.errorMessage,
+    executionDurationMs: durationMs,
+    output: claudeRun?.resultText ?? outputs.join(''),
+    logPath,
+    attempts,
+    verification,
+    failedVerifyCommand,
+    claudeRun,
+    sessionId: lastAttempt.sessionId ?? null,
+    contentHash:
+      executionStatus === 'completed' ? hashPlanContent(plan.content) : null,
+  };
 };
 
 /**
- * Execute all plans in a stack in dependency order
+ * Execute all plans in a stack in dependency order.
+ *
+ * Plans are started as soon as all of their dependencies have completed, with
+ * at most `concurrency` plans running at the same time. In git mode each plan
+ * runs on its own branch, stacked on its dependency's branch, and its changes
+ * are committed when it finishes. With worktrees, each plan also gets its own
+ * checkout and successful plans are merged into the stack's integration branch.
+ *
+ * Aborting `signal` stops new plans from starting and interrupts the running
+ * ones; the stack is always marked as no longer running before returning.
+ *
+ * Plan templates are rendered with the stack's `vars` and `vars` from the
+ * caller. They are checked before anything runs, so an undefined variable
+ * stops the run before it starts.
+ *
+ * A plan with a `when` condition waits until all of its dependencies have
+ * finished and is skipped unless the condition holds for their outcomes.
+ * Soft dependencies only order execution: their dependents run once they
+ * have finished, whatever the outcome.
+ *
+ * Plans with `gate: manual` (every plan with `confirmEach`) are shown to
+ * `callbacks.onGate` before they start, which approves, skips or aborts the
+ * run. Without that callback the plan is marked `awaiting_approval` and its
+ * dependents stay pending until `cc approve` and another run.
+ *
+ * `maxDurationMs` and `maxCostUsd` (or the stack's `budget` settings) limit
+ * the whole run. They are checked between plans, when the duration runs out
+ * and whenever a plan reports its Claude cost; once one is used up, running
+ * plans are interrupted and the remaining plans are skipped. While there is a
+ * cost budget, Claude plans use `stream-json` output unless they already
+ * produce JSON, and plans whose runner can't report cost are passed to
+ * `callbacks.onUncostedPlans`.
+ *
+ * With the `fail-fast` failure policy the first failed plan stops the run
+ * like an abort, and its ID is returned as `failFastPlanId`. The default,
+ * `keep-going`, only skips the failed plan's dependents.
+ *
+ * Hooks from the global config and the stack settings run around each plan
+ * and once the stack finishes. Only a failing `beforePlan` hook fails a plan.
+ *
+ * `selectedPlanIds` limits the run to those plans (see `selectPlanIds`).
+ * Dependencies outside the selection only count as satisfied if they have
+ * already completed; otherwise their dependents are skipped. With `resume`,
+ * that plan continues its earlier Claude session (and git branch) instead of
+ * starting over, even if it had completed.
  */
 export const executeStack = async ({
   stackName,
@@ -128,9 +825,30 @@ export const executeStack = async ({
   fromPlanId,
   callbacks,
   claudeCommand = 'claude',
+  concurrency = 1,
+  timeoutMs = null,
+  retries = 0,
+  retryDelayMs,
+  git,
+  worktrees,
+  keepWorktrees = false,
+  signal,
+  selectedPlanIds,
+  resume = null,
+  failurePolicy,
+  confirmEach = false,
+  maxDurationMs,
+  maxCostUsd,
+  vars,
 }: ExecuteStackOptions): Promise<{
   results: ExecutePlanResult[];
   executionOrder: string[];
+  runId?: string;
+  interrupted?: boolean;
+  failFastPlanId?: string;
+  awaitingApprovalPlanIds?: string[];
+  budgetUsage?: BudgetUsage | null;
+  budgetExhausted?: string | null;
 }> => {
   const stack = await loadStack({ stackName });
 
@@ -149,9 +867,11 @@ export const executeStack = async ({
   }
 
   // Filter to start from a specific plan if specified
-  const executionOrder = fromPlanId
-    ? sortedPlanIds.slice(sortedPlanIds.indexOf(fromPlanId))
-    : sortedPlanIds;
+  const executionOrder = (
+    fromPlanId
+      ? sortedPlanIds.slice(sortedPlanIds.indexOf(fromPlanId))
+      : sortedPlanIds
+  ).filter((planId) => !selectedPlanIds || selectedPlanIds.includes(planId));
 
   if (dryRun) {
     return {
@@ -161,65 +881,438 @@ export const executeStack = async ({
   }
 
   const planIds = stack.plans.map((p) => p.planId);
-  await setStackRunning({ stackName, planIds, isRunning: true });
-
-  const results: ExecutePlanResult[] = [];
-  const completedPlanIds = new Set<string>();
 
   // Load current status to check for already completed plans
   const currentStatus = await loadStackStatus({ stackName, planIds });
+
+  // Completed plans whose file changed, and their dependents, run again
+  const stalePlanIds = await markStalePlans({ stack, status: currentStatus });
+
+  // An invalid runner fails its plan when it runs, so it isn't reported here
+  const planReportsCost = (plan: Plan): boolean => {
+    try {
+      return createPlanRunner({
+        plan,
+        runnerSettings: stack.settings?.runner,
+        claudeCommand,
+        claudeSettings: stack.settings?.claude,
+        trackCost: true,
+      }).reportsCost;
+    } catch {
+      return true;
+    }
+  };
+
+  const isAlreadyCompleted = (planId: string): boolean =>
+    currentStatus.planStatuses[planId]?.executionStatus === 'completed' &&
+    planId !== resume?.planId;
+
+  const budget = resolveStackBudget({
+    maxDurationMs,
+    maxCostUsd,
+    settings: stack.settings?.budget,
+  });
+  const trackCost = budget.maxCostUsd !== null;
+
+  // Plans with a `when` condition or a gate, checked before anything runs
+  // along with their templates. Completed plans won't run, so they can't
+  // stop the run.
+  const conditionsByPlanId = new Map<string, string>();
+  const gatedPlanIds = new Set<string>();
+  const uncostedPlanIds: string[] = [];
+  const templateVars = resolveTemplateVars({
+    stackVars: stack.settings?.vars,
+    vars,
+  });
+
+  for (const planId of executionOrder) {
+    if (isAlreadyCompleted(planId)) continue;
+
+    const plan = await loadPlanById({ planId });
+    const dependsOnPlanIds =
+      stack.plans.find((sp) => sp.planId === planId)?.dependsOnPlanIds ?? [];
+
+    if (plan) {
+      try {
+        renderPlanTemplate({
+          content: plan.content,
+          context: {
+            stackName,
+            planId,
+            planTitle: plan.title || planId,
+            vars: templateVars,
+            env: { ...process.env, ...resolvePlanEnv({ stack, plan }) },
+            dependencyStatuses: Object.fromEntries(
+              dependsOnPlanIds.map((depId) => [depId, 'pending'])
+            ),
+          },
+        });
+      } catch (error) {
+        throw new Error(
+          `Plan '${planId}': ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    if (plan?.gate && plan.gate !== 'manual') {
+      throw new Error(
+        `Plan '${planId}': Invalid gate '${plan.gate}': expected 'manual'.`
+      );
+    }
+
+    if (plan && (confirmEach || plan.gate === 'manual')) {
+      gatedPlanIds.add(planId);
+    }
+
+    if (plan && trackCost && !planReportsCost(plan)) {
+      uncostedPlanIds.push(planId);
+    }
+
+    if (!plan?.when || isDefaultCondition(plan.when)) continue;
+
+    const conditionError = validateCondition({
+      when: plan.when,
+      dependsOnPlanIds,
+    });
+
+    if (conditionError) {
+      throw new Error(`Plan '${planId}': ${conditionError}`);
+    }
+
+    conditionsByPlanId.set(planId, plan.when);
+  }
+
+  const stackRoot = resolveStackRoot({ stack });
+  const config = await loadConfig();
+  const hookTimeoutMs = resolveHookTimeout({
+    globalHooks: config.hooks,
+    stackHooks: stack.settings?.hooks,
+  });
+  const useWorktrees = worktrees ?? stack.settings?.git?.worktrees ?? false;
+  const gitContext =
+    (git ?? stack.settings?.git?.enabled) || useWorktrees
+      ? await prepareStackGit({
+          stack,
+          cwd: stackRoot,
+          concurrency,
+          useWorktrees,
+          keepWorktrees,
+          resetIntegrationBranch: !stack.plans.some((sp) =>
+            isAlreadyCompleted(sp.planId)
+          ),
+        })
+      : null;
+
+  const runId = createRunId();
+  const runStartTime = Date.now();
+  const resolvedFailurePolicy =
+    failurePolicy ?? stack.settings?.failurePolicy ?? 'keep-going';
+
+  const results: ExecutePlanResult[] = [];
+
+  // The run's history record, saved again as each plan finishes
+  const runRecord: RunRecord = {
+    runId,
+    stackName,
+    startedAt: new Date(runStartTime).toISOString(),
+    endedAt: null,
+    runStatus: 'running',
+    options: {
+      concurrency,
+      timeoutMs,
+      retries,
+      git: gitContext !== null,
+      worktrees: useWorktrees,
+      failurePolicy: resolvedFailurePolicy,
+      fromPlanId: fromPlanId ?? null,
+      selectedPlanIds: selectedPlanIds ?? null,
+      resumePlanId: resume?.planId ?? null,
+      confirmEach,
+      maxDurationMs: budget.maxDurationMs,
+      maxCostUsd: budget.maxCostUsd,
+    },
+    planResults: [],
+  };
+
+  const saveRunHistory = async (): Promise<void> => {
+    runRecord.planResults = results.map(toRunPlanResult);
+    await saveRunRecord({ record: runRecord });
+  };
+
+  const completedPlanIds = new Set<string>();
   stack.plans.forEach((sp) => {
-    const planStatus = currentStatus.planStatuses[sp.planId];
-    if (planStatus?.executionStatus === 'completed') {
+    if (isAlreadyCompleted(sp.planId)) {
       completedPlanIds.add(sp.planId);
     }
   });
 
-  for (const planId of executionOrder) {
-    // Skip if already completed
-    if (completedPlanIds.has(planId)) {
-      continue;
+  const dependenciesByPlanId = new Map(
+    stack.plans.map((sp) => [sp.planId, sp.dependsOnPlanIds])
+  );
+  const softDependenciesByPlanId = new Map(
+    stack.plans.map((sp) => [sp.planId, sp.softDependsOnPlanIds ?? []])
+  );
+
+  // Aborted by the caller's signal, or by the first failure under fail-fast
+  const failFast = resolvedFailurePolicy === 'fail-fast';
+  const runController = new AbortController();
+  let failFastPlanId: string | undefined;
+
+  if (signal?.aborted) {
+    runController.abort();
+  } else {
+    signal?.addEventListener('abort', () => runController.abort(), {
+      once: true,
+    });
+  }
+
+  const dependencyContext = stack.settings?.dependencyContext;
+  const outputsByPlanId = new Map<string, string>();
+
+  // Branches of completed plans, used as the base for their dependents
+  const gitBranchesByPlanId = new Map<string, string>();
+  Object.values(currentStatus.planStatuses).forEach((planStatus) => {
+    if (planStatus.executionStatus === 'completed' && planStatus.gitBranch) {
+      gitBranchesByPlanId.set(planStatus.planId, planStatus.gitBranch);
     }
+  });
+
+  // Claude spend in this run, including plans that are still running
+  const costByPlanId = new Map<string, number>();
+  let budgetExhausted: string | null = null;
+
+  const getBudgetUsage = (): BudgetUsage => ({
+    ...budget,
+    durationMs: Date.now() - runStartTime,
+    costUsd: [...costByPlanId.values()].reduce((total, cost) => total + cost, 0),
+  });
+
+  // Once a budget is used up, running plans are stopped and the rest skipped
+  const checkBudget = (): void => {
+    if (budgetExhausted) return;
+
+    budgetExhausted = getBudgetExhaustedReason(getBudgetUsage());
+    if (budgetExhausted) runController.abort();
+  };
+
+  const budgetTimer =
+    budget.maxDurationMs !== null
+      ? setTimeout(checkBudget, budget.maxDurationMs)
+      : null;
+
+  // Completion is reported once git work is done, since that can still fail
+  const planCallbacks: ExecutionCallbacks = {
+    ...callbacks,
+    onPlanComplete: undefined,
+    onPlanCost: (planId, costUsd) => {
+      costByPlanId.set(planId, costUsd);
+      callbacks?.onPlanCost?.(planId, costUsd);
+      checkBudget();
+    },
+  };
+
+  // Outputs from this run are kept in memory; older ones come from their logs
+  const loadDependencyOutputs = async (
+    planId: string
+  ): Promise<DependencyOutput[]> => {
+    const dependencyOutputs = await Promise.all(
+      (dependenciesByPlanId.get(planId) ?? []).map(async (depId) => {
+        const depStatus = currentStatus.planStatuses[depId];
+        const output =
+          outputsByPlanId.get(depId) ??
+          depStatus?.claudeRun?.resultText ??
+          (depStatus?.logPath
+            ? await readPlanLog({ logPath: depStatus.logPath })
+            : null);
+
+        if (!output) return null;
 
-    // Check if all dependencies are completed
-    const stackPlan = stack.plans.find((p) => p.planId === planId);
-    const hasUnmetDependencies = stackPlan?.dependsOnPlanIds.some(
-      (depId) => !completedPlanIds.has(depId)
+        const depPlan = await loadPlanById({ planId: depId });
+        return { planId: depId, title: depPlan?.title ?? depId, output };
+      })
     );
 
-    if (hasUnmetDependencies) {
+    return dependencyOutputs.filter(
+      (output): output is DependencyOutput => output !== null
+    );
+  };
+
+  // Run a hook, appending its output to the plan's log. Returns an error
+  // message when one of its commands failed.
+  const runStackHook = async ({
+    hookName,
+    context,
+    cwd,
+  }: {
+    hookName: HookName;
+    context: Omit<HookContext, 'stackName' | 'runId'>;
+    cwd?: string;
+  }): Promise<string | null> => {
+    const commands = getHookCommands({
+      hookName,
+      globalHooks: config.hooks,
+      stackHooks: stack.settings?.hooks,
+    });
+
+    if (commands.length === 0) return null;
+
+    const hookResults = await runHook({
+      hookName,
+      commands,
+      context: { ...context, stackName, runId },
+      cwd,
+      timeoutMs: hookTimeoutMs,
+      // Hooks that start once the run is stopped, like onStackComplete,
+      // still run to the end
+      signal: runController.signal.aborted ? undefined : runController.signal,
+    });
+
+    if (context.logPath) {
+      await appendPlanLog({
+        logPath: context.logPath,
+        text: hookResults
+          .map((r) => `\n--- Hook ${hookName}: ${r.command} ---\n${r.output}`)
+          .join(''),
+      });
+    }
+
+    const failed = hookResults.find((r) => r.exitCode !== 0);
+    if (!failed) return null;
+
+    if (failed.timedOut) {
+      return `${hookName} hook failed: '${failed.command}' timed out after ${Math.round(hookTimeoutMs / 1000)}s`;
+    }
+
+    return failed.interrupted
+      ? `${hookName} hook interrupted: '${failed.command}'`
+      : `${hookName} hook failed: '${failed.command}' exited with code ${failed.exitCode}`;
+  };
+
+  const skipPlan = async (
+    planId: string,
+    errorMessage = 'Skipped due to failed dependencies.'
+  ): Promise<void> => {
+    await updatePlanStatus({
+      stackName,
+      planIds,
+      planId,
+      executionStatus: 'skipped',
+      errorMessage,
+    });
+
+    await updateStackPlanStatus({
+      stackName,
+      planId,
+      updates: { executionStatus: 'skipped' },
+    });
+
+    results.push({
+      planId,
+      executionStatus: 'skipped',
+      exitCode: null,
+      errorMessage,
+      executionDurationMs: 0,
+      output: '',
+      logPath: null,
+      attempts: [],
+      verification: [],
+      failedVerifyCommand: null,
+      claudeRun: null,
+      sessionId: null,
+      contentHash: null,
+    });
+
+    await saveRunHistory();
+  };
+
+  // Gated plans left for `cc approve`, and the plan whose gate aborted the run
+  const awaitingApprovalPlanIds: string[] = [];
+  let abortedAtGate = false;
+
+  // Ask whether a gated plan may run. With nobody to ask, the plan is left
+  // awaiting approval and null is returned.
+  const requestApproval = async (
+    planId: string
+  ): Promise<GateDecision | null> => {
+    if (!callbacks?.onGate) {
       await updatePlanStatus({
         stackName,
         planIds,
         planId,
-        executionStatus: 'skipped',
-        errorMessage: 'Skipped due to failed dependencies.',
+        executionStatus: 'awaiting_approval',
       });
 
       await updateStackPlanStatus({
         stackName,
         planId,
-        updates: { executionStatus: 'skipped' },
+        updates: { executionStatus: 'awaiting_approval' },
       });
 
-      results.push({
-        planId,
-        executionStatus: 'skipped',
-        exitCode: null,
-        errorMessage: 'Skipped due to failed dependencies.',
-        executionDurationMs: 0,
-        output: '',
-      });
+      awaitingApprovalPlanIds.push(planId);
+      return null;
+    }
+
+    const plan = await loadPlanById({ planId });
+
+    if (!plan) return 'approve';
+
+    let commandLine: string;
+    try {
+      commandLine = createPlanRunner({
+        plan,
+        runnerSettings: stack.settings?.runner,
+        claudeCommand,
+        claudeSettings: stack.settings?.claude,
+        trackCost,
+      }).describe();
+    } catch {
+      // An invalid runner fails the plan before anything runs
+      return 'approve';
+    }
+
+    return callbacks.onGate({
+      planId,
+      title: plan.title || planId,
+      dependencyStatuses: Object.fromEntries(
+        (dependenciesByPlanId.get(planId) ?? []).map((depId) => [
+          depId,
+          getDependencyStatus(depId) ?? 'pending',
+        ])
+      ),
+      commandLine,
+    });
+  };
+
+  const runPlan = async (planId: string): Promise<void> => {
+    if (
+      gatedPlanIds.has(planId) &&
+      !currentStatus.planStatuses[planId]?.approvedAt
+    ) {
+      const decision = await requestApproval(planId);
+
+      if (decision === null) return;
 
-      continue;
+      if (decision === 'skip') {
+        await skipPlan(planId, 'Skipped at approval gate.');
+        return;
+      }
+
+      if (decision === 'abort') {
+        abortedAtGate = true;
+        runController.abort();
+        return;
+      }
     }
 
+    const logPath = getPlanLogPath({ stackName, runId, planId });
+
     // Mark as running
     await updatePlanStatus({
       stackName,
       planIds,
       planId,
       executionStatus: 'running',
+      logPath,
     });
 
     await updateStackPlanStatus({
@@ -228,12 +1321,167 @@ export const executeStack = async ({
       updates: { executionStatus: 'running' },
     });
 
-    // Execute the plan
-    const result = await executePlan({
+    let result: ExecutePlanResult | null = null;
+
+    const plan = await loadPlanById({ planId });
+    const planEnv = resolvePlanEnv({ stack, plan });
+    let planCwd = resolvePlanCwd({ stack, plan });
+    let workspace: PlanWorkspace | null = null;
+    let gitCommit: string | null = null;
+
+    let cwdError = await checkWorkingDirectory(planCwd);
+
+    if (gitContext && !cwdError) {
+      try {
+        workspace = await preparePlanWorkspace({
+          gitContext,
+          planId,
+          dependencyBranches: (dependenciesByPlanId.get(planId) ?? [])
+            .map((depId) => gitBranchesByPlanId.get(depId))
+            .filter((branch): branch is string => branch !== undefined),
+          reuseBranch: planId === resume?.planId,
+          cwd: planCwd,
+        });
+        planCwd = workspace.cwd;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        callbacks?.onPlanError?.(planId, errorMessage);
+        result = createFailedResult({ planId, errorMessage });
+      }
+
+      // A directory git doesn't track won't be in the plan's worktree
+      if (workspace?.worktreePath) {
+        cwdError = await checkWorkingDirectory(planCwd);
+      }
+    }
+
+    if (cwdError && !result) {
+      callbacks?.onPlanError?.(planId, cwdError);
+      result = createFailedResult({ planId, errorMessage: cwdError });
+    }
+
+    if (!result) {
+      const hookError = await runStackHook({
+        hookName: 'beforePlan',
+        context: { planId, status: 'running', logPath },
+        cwd: planCwd,
+      });
+
+      // A hook stopped by an interrupt leaves the plan interrupted below
+      if (hookError && !runController.signal.aborted) {
+        callbacks?.onPlanError?.(planId, hookError);
+        result = {
+          ...createFailedResult({ planId, errorMessage: hookError }),
+          logPath,
+        };
+      }
+    }
+
+    if (!result && runController.signal.aborted) {
+      result = createInterruptedResult({ planId, logPath: null });
+    }
+
+    if (!result) {
+      const dependencyOutputs = dependencyContext?.enabled
+        ? await loadDependencyOutputs(planId)
+        : [];
+
+      // Execute the plan
+      result = await executePlan({
+        planId,
+        claudeCommand,
+        claudeSettings: stack.settings?.claude,
+        runnerSettings: stack.settings?.runner,
+        callbacks: planCallbacks,
+        logPath,
+        timeoutMs,
+        retries,
+        retryDelayMs,
+        dependencyOutputs,
+        maxCharsPerDependency: dependencyContext?.maxChars,
+        cwd: planCwd,
+        env: planEnv,
+        signal: runController.signal,
+        resume: planId === resume?.planId ? resume : null,
+        trackCost,
+        template: {
+          stackName,
+          vars: templateVars,
+          dependencyStatuses: Object.fromEntries(
+            (dependenciesByPlanId.get(planId) ?? []).map((depId) => [
+              depId,
+              getDependencyStatus(depId) ?? 'pending',
+            ])
+          ),
+        },
+      });
+
+      if (budgetExhausted && result.executionStatus === 'interrupted') {
+        result = { ...result, errorMessage: `Stopped: ${budgetExhausted}.` };
+      }
+    }
+
+    if (gitContext && workspace) {
+      try {
+        ({ commit: gitCommit } = await finishPlanWorkspace({
+          gitContext,
+          workspace,
+          title: plan?.title || planId,
+          executionStatus: result.executionStatus,
+        }));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        callbacks?.onPlanError?.(planId, errorMessage);
+        result = { ...result, executionStatus: 'failed', errorMessage };
+      }
+    }
+
+    const endHookNames: HookName[] =
+      result.executionStatus === 'failed'
+        ? ['afterPlan', 'onPlanFailed']
+        : ['afterPlan'];
+
+    for (const hookName of endHookNames) {
+      const hookError = await runStackHook({
+        hookName,
+        context: {
+          planId,
+          status: result.executionStatus,
+          durationMs: result.executionDurationMs,
+          logPath: result.logPath,
+        },
+        // A missing working directory mustn't stop the hooks from running
+        cwd: cwdError ? stackRoot : planCwd,
+      });
+
+      if (hookError) {
+        callbacks?.onHookError?.(planId, hookError);
+      }
+    }
+
+    if (gitContext && workspace) {
+      // The plan's work is already committed, so a failed cleanup only warns
+      try {
+        await cleanupPlanWorkspace({ gitContext, workspace });
+      } catch (error) {
+        callbacks?.onHookError?.(
+          planId,
+          `Failed to remove worktree: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+
+      if (result.executionStatus === 'completed') {
+        gitBranchesByPlanId.set(planId, workspace.branchName);
+      }
+    }
+
+    callbacks?.onPlanComplete?.(
       planId,
-      claudeCommand,
-      callbacks,
-    });
+      result.executionStatus,
+      result.executionDurationMs
+    );
 
     // Update status
     await updatePlanStatus({
@@ -244,6 +1492,16 @@ export const executeStack = async ({
       errorMessage: result.errorMessage,
       exitCode: result.exitCode,
       executionDurationMs: result.executionDurationMs,
+      logPath: result.logPath,
+      attempts: result.attempts,
+      gitBranch: workspace?.branchName,
+      gitBaseBranch: workspace?.baseBranch,
+      gitCommit,
+      verification: result.verification,
+      failedVerifyCommand: result.failedVerifyCommand,
+      claudeRun: result.claudeRun,
+      sessionId: result.sessionId,
+      contentHash: result.contentHash,
     });
 
     await updateStackPlanStatus({
@@ -257,17 +1515,226 @@ export const executeStack = async ({
     });
 
     results.push(result);
+    await saveRunHistory();
+
+    // Failed output is kept too, as context for plans that run on failure
+    outputsByPlanId.set(planId, result.output);
 
     if (result.executionStatus === 'completed') {
       completedPlanIds.add(planId);
     }
+
+    if (failFast && result.executionStatus === 'failed' && !failFastPlanId) {
+      failFastPlanId = planId;
+      runController.abort();
+    }
+  };
+
+  // Plans still waiting to start, kept in topological order
+  const queuedPlanIds = executionOrder.filter(
+    (planId) => !completedPlanIds.has(planId)
+  );
+  const runningPlans = new Map<string, Promise<void>>();
+
+  // The outcome of a dependency, or null while it may still run
+  const getDependencyStatus = (depId: string): ExecutionStatus | null => {
+    if (
+      queuedPlanIds.includes(depId) ||
+      runningPlans.has(depId) ||
+      awaitingApprovalPlanIds.includes(depId)
+    ) {
+      return null;
+    }
+
+    return (
+      results.find((result) => result.planId === depId)?.executionStatus ??
+      (completedPlanIds.has(depId)
+        ? 'completed'
+        : (currentStatus.planStatuses[depId]?.executionStatus ?? 'pending'))
+    );
+  };
+
+  const startPlan = (planId: string): void => {
+    queuedPlanIds.splice(queuedPlanIds.indexOf(planId), 1);
+    const task = runPlan(planId).finally(() => {
+      runningPlans.delete(planId);
+    });
+    runningPlans.set(planId, task);
+  };
+
+  // Nothing may throw between taking the lock and the `try` that releases it
+  await setStackRunning({ stackName, planIds, isRunning: true, runId });
+
+  try {
+    await saveRunHistory();
+
+    if (stalePlanIds.length > 0) {
+      await markPlansStale({ stackName, planIds, stalePlanIds });
+
+      for (const planId of stalePlanIds) {
+        await updateStackPlanStatus({
+          stackName,
+          planId,
+          updates: { executionStatus: 'stale' },
+        });
+      }
+
+      callbacks?.onStalePlans?.(stalePlanIds);
+    }
+
+    if (uncostedPlanIds.length > 0) {
+      callbacks?.onUncostedPlans?.(uncostedPlanIds);
+    }
+
+    while (queuedPlanIds.length > 0 || runningPlans.size > 0) {
+      checkBudget();
+
+      for (const planId of [...queuedPlanIds]) {
+        // Once interrupted, queued plans stay pending for the next run
+        if (runController.signal.aborted) break;
+
+        const dependsOnPlanIds = dependenciesByPlanId.get(planId) ?? [];
+        const softDependsOnPlanIds = softDependenciesByPlanId.get(planId) ?? [];
+        const when = conditionsByPlanId.get(planId);
+
+        // A conditional plan waits for every dependency to finish, then
+        // runs or is skipped depending on their outcomes
+        if (when) {
+          const dependencyStatuses = dependsOnPlanIds.map(
+            (depId) => [depId, getDependencyStatus(depId)] as const
+          );
+
+          if (dependencyStatuses.some(([, status]) => status === null)) {
+            continue;
+          }
+
+          const conditionMet = evaluateCondition({
+            when,
+            dependencyStatuses: Object.fromEntries(dependencyStatuses) as Record<
+              string,
+              ExecutionStatus
+            >,
+            softDependsOnPlanIds,
+          });
+
+          if (!conditionMet) {
+            queuedPlanIds.splice(queuedPlanIds.indexOf(planId), 1);
+            await skipPlan(planId, `Skipped: condition '${when}' not met.`);
+          } else if (runningPlans.size < concurrency) {
+            startPlan(planId);
+          }
+
+          continue;
+        }
+
+        // A dependency that is neither completed nor still scheduled will never
+        // complete during this run
+        const hasFailedDependencies = dependsOnPlanIds.some(
+          (depId) =>
+            !softDependsOnPlanIds.includes(depId) &&
+            !completedPlanIds.has(depId) &&
+            !queuedPlanIds.includes(depId) &&
+            !runningPlans.has(depId) &&
+            !awaitingApprovalPlanIds.includes(depId)
+        );
+
+        if (hasFailedDependencies) {
+          queuedPlanIds.splice(queuedPlanIds.indexOf(planId), 1);
+          await skipPlan(planId);
+          continue;
+        }
+
+        const isReady = dependsOnPlanIds.every((depId) =>
+          softDependsOnPlanIds.includes(depId)
+            ? getDependencyStatus(depId) !== null
+            : completedPlanIds.has(depId)
+        );
+
+        if (isReady && runningPlans.size < concurrency) {
+          startPlan(planId);
+        }
+      }
+
+      if (runningPlans.size === 0) {
+        break;
+      }
+
+      await Promise.race(runningPlans.values());
+    }
+
+    if (budgetExhausted) {
+      for (const planId of [...queuedPlanIds]) {
+        queuedPlanIds.splice(queuedPlanIds.indexOf(planId), 1);
+        await skipPlan(planId, `Skipped: ${budgetExhausted}.`);
+      }
+    }
+  } finally {
+    if (budgetTimer) clearTimeout(budgetTimer);
+
+    // Let plans that are still running settle before releasing the stack
+    await Promise.allSettled(runningPlans.values());
+
+    if (gitContext) {
+      try {
+        await finishStackGit({ gitContext });
+      } catch (error) {
+        callbacks?.onHookError?.(
+          null,
+          `Failed to restore the git checkout: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    await setStackRunning({ stackName, planIds, isRunning: false });
   }
 
-  await setStackRunning({ stackName, planIds, isRunning: false });
+  const interrupted = (signal?.aborted ?? false) || abortedAtGate;
+  const runStatus: RunStatus = interrupted
+    ? 'interrupted'
+    : budgetExhausted
+      ? 'stopped'
+      : results.some((r) => r.executionStatus === 'failed')
+        ? 'failed'
+        : awaitingApprovalPlanIds.length > 0
+          ? 'awaiting_approval'
+          : 'completed';
+
+  runRecord.endedAt = new Date().toISOString();
+  runRecord.runStatus = runStatus;
+  await saveRunHistory();
+
+  // Keep the logs plan statuses point to, which dependents and `cc logs` read
+  const finalStatus = await loadStackStatus({ stackName, planIds });
+  await pruneRunHistory({
+    stackName,
+    keepRuns: config.historyRetention,
+    keepRunIds: Object.values(finalStatus.planStatuses).flatMap((planStatus) =>
+      planStatus.logPath ? [getLogRunId({ logPath: planStatus.logPath })] : []
+    ),
+  });
+
+  const stackHookError = await runStackHook({
+    hookName: 'onStackComplete',
+    context: {
+      stackStatus: runStatus,
+      durationMs: Date.now() - runStartTime,
+    },
+    cwd: stackRoot,
+  });
+
+  if (stackHookError) {
+    callbacks?.onHookError?.(null, stackHookError);
+  }
 
   return {
     results,
     executionOrder,
+    runId,
+    interrupted,
+    failFastPlanId,
+    awaitingApprovalPlanIds,
+    budgetUsage: hasBudget(budget) ? getBudgetUsage() : null,
+    budgetExhausted,
   };
 };
 
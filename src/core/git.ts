@@ -0,0 +1,327 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_MAX_BUFFER = 10 * 1024 * 1024;
+
+/**
+ * Run a git command and return its trimmed stdout
+ */
+const runGit = async ({
+  args,
+  cwd,
+}: {
+  args: string[];
+  cwd: string;
+}): Promise<string> => {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      maxBuffer: GIT_MAX_BUFFER,
+    });
+    return stdout.trim();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`git ${args[0]} failed: ${stderr || message}`);
+  }
+};
+
+/**
+ * Get the branch name for a plan, e.g. 'my-stack/fix-auth-bug'
+ */
+export const getPlanBranchName = ({
+  stackName,
+  planId,
+  branchPrefix = '',
+}: {
+  stackName: string;
+  planId: string;
+  branchPrefix?: string;
+}): string => `${branchPrefix}${stackName}/${planId}`;
+
+/**
+ * Check whether a directory is inside a git work tree
+ */
+export const isGitRepository = async ({
+  cwd,
+}: {
+  cwd: string;
+}): Promise<boolean> => {
+  try {
+    return (
+      (await runGit({ args: ['rev-parse', '--is-inside-work-tree'], cwd })) ===
+      'true'
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the top-level directory of the repository containing `cwd`
+ */
+export const getRepositoryRoot = async ({
+  cwd,
+}: {
+  cwd: string;
+}): Promise<string> => runGit({ args: ['rev-parse', '--show-toplevel'], cwd });
+
+/**
+ * Get the currently checked out branch
+ */
+export const getCurrentBranch = async ({
+  cwd,
+}: {
+  cwd: string;
+}): Promise<string> =>
+  runGit({ args: ['rev-parse', '--abbrev-ref', 'HEAD'], cwd });
+
+/**
+ * Check whether the working tree has uncommitted or untracked changes
+ */
+export const hasUncommittedChanges = async ({
+  cwd,
+}: {
+  cwd: string;
+}): Promise<boolean> =>
+  (await runGit({ args: ['status', '--porcelain'], cwd })) !== '';
+
+/**
+ * Check whether a local branch exists
+ */
+export const branchExists = async ({
+  branchName,
+  cwd,
+}: {
+  branchName: string;
+  cwd: string;
+}): Promise<boolean> => {
+  try {
+    await runGit({
+      args: ['rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`],
+      cwd,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Create (or reset) a branch at `baseRef` and check it out
+ */
+export const checkoutNewBranch = async ({
+  branchName,
+  baseRef,
+  cwd,
+}: {
+  branchName: string;
+  baseRef: string;
+  cwd: string;
+}): Promise<void> => {
+  await runGit({ args: ['checkout', '-B', branchName, baseRef], cwd });
+};
+
+/**
+ * Check out an existing branch
+ */
+export const checkoutBranch = async ({
+  branchName,
+  cwd,
+}: {
+  branchName: string;
+  cwd: string;
+}): Promise<void> => {
+  await runGit({ args: ['checkout', branchName], cwd });
+};
+
+/**
+ * Merge a branch into the current branch, aborting the merge on conflict
+ */
+export const mergeBranch = async ({
+  branchName,
+  cwd,
+}: {
+  branchName: string;
+  cwd: string;
+}): Promise<void> => {
+  try {
+    await runGit({ args: ['merge', '--no-edit', branchName], cwd });
+  } catch (error) {
+    const conflictedFiles = await runGit({
+      args: ['diff', '--name-only', '--diff-filter=U'],
+      cwd,
+    }).catch(() => '');
+
+    await runGit({ args: ['merge', '--abort'], cwd }).catch(() => undefined);
+
+    if (conflictedFiles) {
+      const currentBranch = await getCurrentBranch({ cwd }).catch(() => 'HEAD');
+      throw new Error(
+        `Merge conflict merging '${branchName}' into '${currentBranch}': ${conflictedFiles.split('\n').join(', ')}`
+      );
+    }
+    throw error;
+  }
+};
+
+/**
+ * Create a branch at `baseRef` unless it already exists
+ */
+export const ensureBranch = async ({
+  branchName,
+  baseRef,
+  cwd,
+}: {
+  branchName: string;
+  baseRef: string;
+  cwd: string;
+}): Promise<void> => {
+  if (await branchExists({ branchName, cwd })) return;
+  await runGit({ args: ['branch', branchName, baseRef], cwd });
+};
+
+/**
+ * Add a worktree at `path`.
+ *
+ * With `baseRef`, the branch is created (or reset) at that ref; otherwise the
+ * existing branch is checked out.
+ */
+export const addWorktree = async ({
+  path,
+  branchName,
+  baseRef,
+  cwd,
+}: {
+  path: string;
+  branchName: string;
+  baseRef?: string;
+  cwd: string;
+}): Promise<void> => {
+  const args = baseRef
+    ? ['worktree', 'add', '-B', branchName, path, baseRef]
+    : ['worktree', 'add', path, branchName];
+  await runGit({ args, cwd });
+};
+
+/**
+ * Remove a worktree, discarding any changes left in it
+ */
+export const removeWorktree = async ({
+  path,
+  cwd,
+}: {
+  path: string;
+  cwd: string;
+}): Promise<void> => {
+  await runGit({ args: ['worktree', 'remove', '--force', path], cwd });
+};
+
+/**
+ * Forget worktrees whose directories no longer exist
+ */
+export const pruneWorktrees = async ({
+  cwd,
+}: {
+  cwd: string;
+}): Promise<void> => {
+  await runGit({ args: ['worktree', 'prune'], cwd });
+};
+
+/**
+ * Stage and commit every change in the working tree.
+ *
+ * Returns the new commit hash, or null when there was nothing to commit.
+ */
+export const commitAll = async ({
+  message,
+  cwd,
+}: {
+  message: string;
+  cwd: string;
+}): Promise<string | null> => {
+  await runGit({ args: ['add', '--all'], cwd });
+
+  if (!(await hasUncommittedChanges({ cwd }))) {
+    return null;
+  }
+
+  await runGit({ args: ['commit', '-m', message], cwd });
+  return runGit({ args: ['rev-parse', 'HEAD'], cwd });
+};
+
+/**
+ * Get the short hash and subject of a branch's latest commit
+ */
+export const getBranchHead = async ({
+  branchName,
+  cwd,
+}: {
+  branchName: string;
+  cwd: string;
+}): Promise<{ shortHash: string; subject: string } | null> => {
+  try {
+    const output = await runGit({
+      args: ['log', '-1', '--format=%h%x00%s', branchName, '--'],
+      cwd,
+    });
+    const [shortHash, subject] = output.split('\0');
+    return { shortHash, subject };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Count commits on `branchName` that are not on `baseRef`
+ */
+export const countCommitsAhead = async ({
+  branchName,
+  baseRef,
+  cwd,
+}: {
+  branchName: string;
+  baseRef: string;
+  cwd: string;
+}): Promise<number> => {
+  try {
+    const output = await runGit({
+      args: ['rev-list', '--count', `${baseRef}..${branchName}`],
+      cwd,
+    });
+    return Number(output);
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Check out a fresh branch for a plan.
+ *
+ * The branch starts from the first dependency's branch (or the stack's base
+ * branch for root plans), and any other dependency branches are merged in so
+ * the plan sees all of its upstream changes.
+ */
+export const checkoutPlanBranch = async ({
+  branchName,
+  baseBranch,
+  dependencyBranches,
+  cwd,
+}: {
+  branchName: string;
+  baseBranch: string;
+  dependencyBranches: string[];
+  cwd: string;
+}): Promise<{ branchName: string; baseBranch: string }> => {
+  const [parentBranch = baseBranch, ...otherBranches] = dependencyBranches;
+
+  await checkoutNewBranch({ branchName, baseRef: parentBranch, cwd });
+
+  for (const otherBranch of otherBranches) {
+    await mergeBranch({ branchName: otherBranch, cwd });
+  }
+
+  return { branchName, baseBranch: parentBranch };
+};
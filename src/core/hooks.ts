@@ -0,0 +1,166 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { parseDuration } from './duration.js';
+import type { HookSettings } from '../types/index.js';
+
+const execAsync = promisify(exec);
+
+const HOOK_MAX_BUFFER = 10 * 1024 * 1024;
+
+// How long a hook command may run when `hooks.timeout` isn't set
+export const DEFAULT_HOOK_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type HookName = Exclude<keyof HookSettings, 'timeout'>;
+
+export interface HookContext {
+  stackName: string;
+  runId: string;
+  planId?: string;
+  status?: string;
+  stackStatus?: string;
+  durationMs?: number;
+  logPath?: string | null;
+}
+
+export interface HookResult {
+  command: string;
+  exitCode: number;
+  output: string;
+  timedOut: boolean;
+  interrupted: boolean;
+}
+
+/**
+ * Get the commands configured for a hook, global config first, then the stack
+ */
+export const getHookCommands = ({
+  hookName,
+  globalHooks,
+  stackHooks,
+}: {
+  hookName: HookName;
+  globalHooks?: HookSettings;
+  stackHooks?: HookSettings;
+}): string[] =>
+  [globalHooks?.[hookName], stackHooks?.[hookName]].filter(
+    (command): command is string => typeof command === 'string' && command !== ''
+  );
+
+/**
+ * Work out how long each hook command may run. The stack's `hooks.timeout`
+ * wins over the global one. Throws if the setting is invalid.
+ */
+export const resolveHookTimeout = ({
+  globalHooks,
+  stackHooks,
+}: {
+  globalHooks?: HookSettings;
+  stackHooks?: HookSettings;
+}): number => {
+  const timeout = stackHooks?.timeout ?? globalHooks?.timeout;
+  if (timeout === undefined) return DEFAULT_HOOK_TIMEOUT_MS;
+
+  const timeoutMs = parseDuration(timeout);
+  if (!timeoutMs) {
+    throw new Error(
+      `Invalid hooks.timeout '${timeout}': expected a duration such as 5m.`
+    );
+  }
+
+  return timeoutMs;
+};
+
+/**
+ * Expose the hook context to the command as CC_* environment variables
+ */
+const createHookEnv = ({
+  hookName,
+  context,
+}: {
+  hookName: HookName;
+  context: HookContext;
+}): NodeJS.ProcessEnv => ({
+  ...process.env,
+  CC_HOOK: hookName,
+  CC_STACK_NAME: context.stackName,
+  CC_RUN_ID: context.runId,
+  ...(context.planId !== undefined && { CC_PLAN_ID: context.planId }),
+  ...(context.status !== undefined && { CC_PLAN_STATUS: context.status }),
+  ...(context.stackStatus !== undefined && {
+    CC_STACK_STATUS: context.stackStatus,
+  }),
+  ...(context.durationMs !== undefined && {
+    CC_DURATION_MS: String(context.durationMs),
+  }),
+  ...(context.logPath && { CC_LOG_PATH: context.logPath }),
+});
+
+/**
+ * Run a hook's commands in order, stopping at the first one that fails.
+ *
+ * A command still running after `timeoutMs`, or when `signal` aborts, is
+ * killed and counts as failed. Returns the result of every command that ran;
+ * the last one failed if its exit code is not 0.
+ */
+export const runHook = async ({
+  hookName,
+  commands,
+  context,
+  cwd,
+  timeoutMs = DEFAULT_HOOK_TIMEOUT_MS,
+  signal,
+}: {
+  hookName: HookName;
+  commands: string[];
+  context: HookContext;
+  cwd?: string;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}): Promise<HookResult[]> => {
+  const env = createHookEnv({ hookName, context });
+  const results: HookResult[] = [];
+
+  for (const command of commands) {
+    try {
+      const { stdout, stderr } = await execAsync(command, {
+        cwd,
+        env,
+        maxBuffer: HOOK_MAX_BUFFER,
+        timeout: timeoutMs,
+        signal,
+      });
+      results.push({
+        command,
+        exitCode: 0,
+        output: `${stdout}${stderr}`,
+        timedOut: false,
+        interrupted: false,
+      });
+    } catch (error) {
+      const {
+        code,
+        killed = false,
+        stdout = '',
+        stderr = '',
+      } = error as {
+        code?: number | string;
+        killed?: boolean;
+        stdout?: string;
+        stderr?: string;
+      };
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const interrupted = signal?.aborted ?? false;
+
+      results.push({
+        command,
+        exitCode: typeof code === 'number' ? code : 1,
+        output: `${stdout}${stderr}` || message,
+        timedOut: killed && !interrupted,
+        interrupted,
+      });
+      break;
+    }
+  }
+
+  return results;
+};
@@ -2,3 +2,17 @@ export * from './plan-parser.js';
 export * from './dependency-graph.js';
 export * from './stack-manager.js';
 export * from './executor.js';
+export * from './duration.js';
+export * from './prompt.js';
+export * from './claude.js';
+export * from './claude-output.js';
+export * from './git.js';
+export * from './workspace.js';
+export * from './hooks.js';
+export * from './runner.js';
+export * from './stale-plans.js';
+export * from './plan-watcher.js';
+export * from './conditions.js';
+export * from './budget.js';
+export * from './template.js';
+export * from './working-directory.js';
@@ -2,7 +2,12 @@ import matter from 'gray-matter';
 import { readFile, readdir } from 'fs/promises';
 import { join, basename } from 'path';
 import { homedir } from 'os';
-import type { Plan, PlanType, ParsedFrontmatter } from '../types/index.js';
+import type {
+  Plan,
+  PlanType,
+  ParsedFrontmatter,
+  RunnerSettings,
+} from '../types/index.js';
 import { TYPE_PREFIX_MAP } from '../types/index.js';
 
 const DEFAULT_PLANS_DIR = join(homedir(), '.claude', 'plans');
@@ -52,6 +57,27 @@ const extractTitleAndType = ({
   return { title: '', planType: 'note' };
 };
 
+/**
+ * Normalize the `verify` frontmatter, which may be a single command or a list
+ */
+const parseVerifyCommands = (verify: string | string[] | undefined): string[] => {
+  if (!verify) return [];
+
+  const commands = Array.isArray(verify) ? verify : [verify];
+  return commands.map((command) => String(command).trim()).filter(Boolean);
+};
+
+/**
+ * Normalize the `runner` frontmatter, which may be just the runner type
+ */
+const parseRunnerSettings = (
+  runner: ParsedFrontmatter['runner']
+): RunnerSettings | null => {
+  if (!runner) return null;
+
+  return typeof runner === 'string' ? { type: runner } : runner;
+};
+
 /**
  * Parse a single plan file and extract metadata
  */
@@ -66,7 +92,10 @@ export const parsePlanFile = async ({
 
   const planId = basename(filePath, '.md');
   const { title, planType } = extractTitleAndType({ content });
-  const references = parseWikiLinks(frontmatter.references);
+  const softReferences = parseWikiLinks(frontmatter.softReferences);
+  const references = [
+    ...new Set([...parseWikiLinks(frontmatter.references), ...softReferences]),
+  ];
   const concepts = parseWikiLinks(frontmatter.concepts);
 
   return {
@@ -75,8 +104,19 @@ export const parsePlanFile = async ({
     title,
     planType,
     references,
+    softReferences,
     concepts,
     content: fileContent,
+    timeout: frontmatter.timeout ?? null,
+    retries: frontmatter.retries ?? null,
+    verify: parseVerifyCommands(frontmatter.verify),
+    claude: frontmatter.claude ?? null,
+    runner: parseRunnerSettings(frontmatter.runner),
+    mock: frontmatter.mock ?? null,
+    when: frontmatter.when ?? null,
+    gate: frontmatter.gate ?? null,
+    cwd: frontmatter.cwd ?? null,
+    env: frontmatter.env ?? null,
   };
 };
 
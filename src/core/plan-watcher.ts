@@ -0,0 +1,56 @@
+import { watch } from 'fs';
+import { dirname, join } from 'path';
+
+export const WATCH_DEBOUNCE_MS = 500;
+
+/**
+ * Watch plan files and report which plans changed.
+ *
+ * The directories holding the files are watched rather than the files
+ * themselves, so editors that save by replacing the file are still noticed.
+ * `onChange` is called once no change has been seen for `debounceMs`, with
+ * every plan that changed in the meantime. Returns a function that stops
+ * watching.
+ */
+export const watchPlanFiles = ({
+  planFiles,
+  debounceMs = WATCH_DEBOUNCE_MS,
+  onChange,
+}: {
+  planFiles: Record<string, string>;
+  debounceMs?: number;
+  onChange: (planIds: string[]) => void;
+}): (() => void) => {
+  const planIdsByPath = new Map(
+    Object.entries(planFiles).map(([planId, filePath]) => [filePath, planId])
+  );
+  const changedPlanIds = new Set<string>();
+  let debounceTimer: NodeJS.Timeout | null = null;
+
+  const directories = [...new Set([...planIdsByPath.keys()].map(dirname))];
+
+  const watchers = directories.map((directory) =>
+    watch(directory, (_eventType, fileName) => {
+      const planId = fileName
+        ? planIdsByPath.get(join(directory, fileName.toString()))
+        : undefined;
+
+      if (!planId) return;
+
+      changedPlanIds.add(planId);
+
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        debounceTimer = null;
+        const planIds = [...changedPlanIds];
+        changedPlanIds.clear();
+        onChange(planIds);
+      }, debounceMs);
+    })
+  );
+
+  return () => {
+    if (debounceTimer) clearTimeout(debounceTimer);
+    watchers.forEach((watcher) => watcher.close());
+  };
+};
@@ -0,0 +1,88 @@
+import type { Plan } from '../types/index.js';
+
+export const DEFAULT_DEPENDENCY_CONTEXT_MAX_CHARS = 8000;
+
+export const DEFAULT_RESUME_MESSAGE =
+  'The previous run of this plan did not finish successfully. Pick up where you left off and complete the remaining work.';
+
+export interface DependencyOutput {
+  planId: string;
+  title: string;
+  output: string;
+}
+
+/**
+ * Keep the end of an output, which is where Claude's final answer lives
+ */
+const truncateOutput = ({
+  output,
+  maxChars,
+}: {
+  output: string;
+  maxChars: number;
+}): { text: string; truncated: boolean } => {
+  const trimmed = output.trim();
+
+  if (trimmed.length <= maxChars) {
+    return { text: trimmed, truncated: false };
+  }
+
+  return { text: trimmed.slice(trimmed.length - maxChars), truncated: true };
+};
+
+/**
+ * Render completed dependency outputs as a structured context section
+ */
+const formatDependencyContext = ({
+  dependencyOutputs,
+  maxCharsPerDependency,
+}: {
+  dependencyOutputs: DependencyOutput[];
+  maxCharsPerDependency: number;
+}): string => {
+  const sections = dependencyOutputs.map((dependency) => {
+    const { text, truncated } = truncateOutput({
+      output: dependency.output,
+      maxChars: maxCharsPerDependency,
+    });
+
+    const attributes = [
+      `plan="${dependency.planId}"`,
+      `title="${dependency.title.replace(/"/g, "'")}"`,
+      ...(truncated ? ['truncated="true"'] : []),
+    ].join(' ');
+
+    return `<dependency-output ${attributes}>\n${text}\n</dependency-output>`;
+  });
+
+  return [
+    '# Context from completed dependencies',
+    '',
+    'The plans below ran before this one. Their final output is included so you can build on what they changed or decided. Truncated outputs keep only the end.',
+    '',
+    sections.join('\n\n'),
+  ].join('\n');
+};
+
+/**
+ * Build the prompt sent for a plan, optionally appending the output of its
+ * completed dependencies
+ */
+export const buildPlanPrompt = ({
+  plan,
+  dependencyOutputs = [],
+  maxCharsPerDependency = DEFAULT_DEPENDENCY_CONTEXT_MAX_CHARS,
+}: {
+  plan: Plan;
+  dependencyOutputs?: DependencyOutput[];
+  maxCharsPerDependency?: number;
+}): string => {
+  if (dependencyOutputs.length === 0) {
+    return plan.content;
+  }
+
+  return `${plan.content.trimEnd()}\n\n---\n\n${formatDependencyContext({
+    dependencyOutputs,
+    maxCharsPerDependency,
+  })}\n`;
+};
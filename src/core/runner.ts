@@ -0,0 +1,278 @@
+import { randomUUID } from 'crypto';
+import { parseDuration } from './duration.js';
+import {
+  buildClaudeArgs,
+  buildClaudeFlags,
+  formatCommandLine,
+  isStructuredOutput,
+  quoteShellArg,
+  resolveClaudeSettings,
+  validateClaudeSettings,
+} from './claude.js';
+import type {
+  ClaudeSettings,
+  MockSettings,
+  Plan,
+  RunnerSettings,
+  RunnerType,
+} from '../types/index.js';
+
+export const RUNNER_TYPES: RunnerType[] = ['claude', 'shell', 'mock'];
+
+export interface RunnerAttempt {
+  commandLine: string;
+  // Session the attempt runs in, for runners that have sessions
+  sessionId: string | null;
+  // Whether the output is Claude JSON that should be parsed
+  structuredOutput: boolean;
+}
+
+export interface PlanRunner {
+  type: RunnerType;
+  supportsResume: boolean;
+  // Whether attempts report what they cost, for cost budgets
+  reportsCost: boolean;
+  /** Build the command line for one attempt at the plan */
+  createAttempt: (params: {
+    prompt: string;
+    attempt: number;
+    resumeSessionId?: string | null;
+  }) => RunnerAttempt;
+  /** The command line with the prompt left out, for dry runs */
+  describe: () => string;
+}
+
+const PROMPT_PLACEHOLDER = '{prompt}';
+
+/**
+ * Merge the stack's runner with a plan's own. Plan values win field by field.
+ */
+export const resolveRunnerSettings = ({
+  stackSettings,
+  planSettings,
+}: {
+  stackSettings?: RunnerSettings | null;
+  planSettings?: RunnerSettings | null;
+}): RunnerSettings => ({ ...stackSettings, ...planSettings });
+
+/**
+ * Fill in a shell runner's command template. Values must already be quoted;
+ * without a `{prompt}` placeholder the prompt is appended as the last argument.
+ */
+const fillCommandTemplate = ({
+  template,
+  prompt,
+  planId,
+}: {
+  template: string;
+  prompt: string;
+  planId: string;
+}): string => {
+  const commandLine = template.replace(/\{(prompt|planId)\}/g, (_match, key) =>
+    key === 'prompt' ? prompt : planId
+  );
+
+  return template.includes(PROMPT_PLACEHOLDER)
+    ? commandLine
+    : `${commandLine} ${prompt}`;
+};
+
+const createClaudeRunner = ({
+  claudeCommand,
+  settings,
+}: {
+  claudeCommand: string;
+  settings: ClaudeSettings;
+}): PlanRunner => ({
+  type: 'claude',
+  supportsResume: true,
+  reportsCost: isStructuredOutput(settings),
+  createAttempt: ({ prompt, resumeSessionId }) => {
+    const sessionId = resumeSessionId ?? randomUUID();
+
+    return {
+      commandLine: formatCommandLine({
+        command: claudeCommand,
+        args: buildClaudeArgs({
+          prompt,
+          settings,
+          ...(resumeSessionId ? { resumeSessionId } : { sessionId }),
+        }),
+      }),
+      sessionId,
+      structuredOutput: isStructuredOutput(settings),
+    };
+  },
+  describe: () =>
+    [
+      claudeCommand,
+      '--session-id',
+      '<uuid>',
+      '-p',
+      '<prompt>',
+      ...buildClaudeFlags(settings).map(quoteShellArg),
+    ].join(' '),
+});
+
+const createShellRunner = ({
+  template,
+  planId,
+}: {
+  template: string;
+  planId: string;
+}): PlanRunner => ({
+  type: 'shell',
+  supportsResume: false,
+  reportsCost: false,
+  createAttempt: ({ prompt }) => ({
+    commandLine: fillCommandTemplate({
+      template,
+      prompt: quoteShellArg(prompt),
+      planId: quoteShellArg(planId),
+    }),
+    sessionId: null,
+    structuredOutput: false,
+  }),
+  describe: () =>
+    fillCommandTemplate({
+      template,
+      prompt: '<prompt>',
+      planId: quoteShellArg(planId),
+    }),
+});
+
+/**
+ * Check a plan's `mock` frontmatter, returning an error message if it is invalid
+ */
+const validateMockSettings = (mock: MockSettings): string | null => {
+  if (mock.output !== undefined && typeof mock.output !== 'string') {
+    return 'Invalid mock.output: expected a string.';
+  }
+
+  if (
+    mock.exitCode !== undefined &&
+    (!Number.isInteger(mock.exitCode) || mock.exitCode < 0 || mock.exitCode > 255)
+  ) {
+    return `Invalid mock.exitCode '${mock.exitCode}': expected an integer from 0 to 255.`;
+  }
+
+  if (mock.delay !== undefined && parseDuration(mock.delay) === null) {
+    return `Invalid mock.delay '${mock.delay}': expected a duration such as 2s.`;
+  }
+
+  if (
+    mock.failAttempts !== undefined &&
+    (!Number.isInteger(mock.failAttempts) || mock.failAttempts < 0)
+  ) {
+    return `Invalid mock.failAttempts '${mock.failAttempts}': expected a non-negative integer.`;
+  }
+
+  return null;
+};
+
+/**
+ * A runner that never calls a model: it waits for `mock.delay`, prints
+ * `mock.output` and exits with `mock.exitCode`, failing the first
+ * `mock.failAttempts` attempts.
+ */
+const createMockRunner = ({
+  mock,
+  planId,
+}: {
+  mock: MockSettings;
+  planId: string;
+}): PlanRunner => {
+  const delaySeconds = (parseDuration(mock.delay ?? 0) ?? 0) / 1000;
+
+  const buildCommandLine = (attempt: number): string => {
+    const failing = attempt <= (mock.failAttempts ?? 0);
+    const output = failing
+      ? `Mock failure of plan ${planId} (attempt ${attempt})`
+      : (mock.output ?? `Mock run of plan ${planId}`);
+    const exitCode = failing ? 1 : (mock.exitCode ?? 0);
+
+    return [
+      ...(delaySeconds > 0 ? [`sleep ${delaySeconds}`] : []),
+      `printf '%s\\n' ${quoteShellArg(output)}`,
+      `exit ${exitCode}`,
+    ].join('; ');
+  };
+
+  return {
+    type: 'mock',
+    supportsResume: false,
+    reportsCost: false,
+    createAttempt: ({ attempt }) => ({
+      commandLine: buildCommandLine(attempt),
+      sessionId: null,
+      structuredOutput: false,
+    }),
+    describe: () => buildCommandLine((mock.failAttempts ?? 0) + 1),
+  };
+};
+
+/**
+ * Create the runner that executes a plan.
+ *
+ * The runner comes from the plan's `runner` frontmatter layered over the
+ * stack's `runnerSettings`, and defaults to Claude. With `trackCost`, Claude
+ * set to `text` output uses `stream-json` instead, so its cost is known.
+ * Throws if the runner or its settings are invalid.
+ */
+export const createPlanRunner = ({
+  plan,
+  runnerSettings,
+  claudeCommand = 'claude',
+  claudeSettings,
+  trackCost = false,
+}: {
+  plan: Plan;
+  runnerSettings?: RunnerSettings | null;
+  claudeCommand?: string;
+  claudeSettings?: ClaudeSettings | null;
+  trackCost?: boolean;
+}): PlanRunner => {
+  const { type = 'claude', command } = resolveRunnerSettings({
+    stackSettings: runnerSettings,
+    planSettings: plan.runner,
+  });
+
+  if (!RUNNER_TYPES.includes(type)) {
+    throw new Error(
+      `Invalid runner '${type}': expected one of ${RUNNER_TYPES.join(', ')}.`
+    );
+  }
+
+  if (type === 'shell') {
+    if (typeof command !== 'string' || command.trim() === '') {
+      throw new Error('The shell runner needs a runner.command template.');
+    }
+
+    return createShellRunner({ template: command, planId: plan.planId });
+  }
+
+  if (type === 'mock') {
+    const mock = plan.mock ?? {};
+    const mockError = validateMockSettings(mock);
+
+    if (mockError) throw new Error(mockError);
+
+    return createMockRunner({ mock, planId: plan.planId });
+  }
+
+  const settings = resolveClaudeSettings({
+    stackSettings: claudeSettings,
+    planSettings: plan.claude,
+  });
+  const settingsError = validateClaudeSettings(settings);
+
+  if (settingsError) throw new Error(settingsError);
+
+  return createClaudeRunner({
+    claudeCommand,
+    settings:
+      trackCost && !isStructuredOutput(settings)
+        ? { ...settings, outputFormat: 'stream-json' }
+        : settings,
+  });
+};
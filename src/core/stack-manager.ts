@@ -1,5 +1,12 @@
-import type { Stack, StackPlan, StackCreateOptions } from '../types/index.js';
+import { cloneDeep, get, set, unset } from 'lodash-es';
+import type {
+  Stack,
+  StackPlan,
+  StackCreateOptions,
+  StackSettings,
+} from '../types/index.js';
 import { loadPlanById } from './plan-parser.js';
+import { normalizeStackCwd } from './working-directory.js';
 import {
   buildDependencyGraph,
   findRootPlans,
@@ -12,9 +19,29 @@ import {
   listStacks,
   stackExists,
 } from '../storage/stack-store.js';
+import { withLock } from '../storage/lock.js';
 
 export { loadStack, deleteStack, listStacks, stackExists };
 
+/**
+ * Top-level setting keys accepted by `cc config`
+ */
+const STACK_SETTING_KEYS: Record<keyof StackSettings, true> = {
+  dependencyContext: true,
+  git: true,
+  hooks: true,
+  claude: true,
+  runner: true,
+  failurePolicy: true,
+  budget: true,
+  vars: true,
+  cwd: true,
+  env: true,
+};
+
+export const getStackSettingKeys = (): string[] =>
+  Object.keys(STACK_SETTING_KEYS);
+
 /**
  * Create a new stack from plan IDs
  */
@@ -223,6 +250,11 @@ export const removePlansFromStack = async ({
     dependsOnPlanIds: sp.dependsOnPlanIds.filter(
       (depId) => !planIdsToRemove.has(depId)
     ),
+    ...(sp.softDependsOnPlanIds && {
+      softDependsOnPlanIds: sp.softDependsOnPlanIds.filter(
+        (depId) => !planIdsToRemove.has(depId)
+      ),
+    }),
   }));
 
   const updatedStack: Stack = {
@@ -276,22 +308,92 @@ export const updateStackPlanStatus = async ({
   planId: string;
   updates: Partial<StackPlan>;
 }): Promise<Stack> => {
-  const stack = await loadStack({ stackName });
+  return withLock({
+    key: `stack:${stackName}`,
+    task: async () => {
+      const stack = await loadStack({ stackName });
+
+      if (!stack) {
+        throw new Error(`Stack '${stackName}' not found.`);
+      }
+
+      const updatedPlans = stack.plans.map((sp) =>
+        sp.planId === planId ? { ...sp, ...updates } : sp
+      );
+
+      const updatedStack: Stack = {
+        ...stack,
+        plans: updatedPlans,
+        updatedAt: new Date().toISOString(),
+      };
 
-  if (!stack) {
-    throw new Error(`Stack '${stackName}' not found.`);
-  }
+      await saveStack({ stack: updatedStack });
+      return updatedStack;
+    },
+  });
+};
 
-  const updatedPlans = stack.plans.map((sp) =>
-    sp.planId === planId ? { ...sp, ...updates } : sp
-  );
+/**
+ * Read a stack setting by dotted key path (e.g. 'dependencyContext.maxChars')
+ */
+export const getStackSetting = ({
+  stack,
+  key,
+}: {
+  stack: Stack;
+  key: string;
+}): unknown => get(stack.settings ?? {}, key);
 
-  const updatedStack: Stack = {
-    ...stack,
-    plans: updatedPlans,
-    updatedAt: new Date().toISOString(),
-  };
+/**
+ * Set a stack setting by dotted key path, or remove it when value is undefined.
+ * A `cwd` is stored as an absolute path.
+ */
+export const updateStackSetting = async ({
+  stackName,
+  key,
+  value,
+}: {
+  stackName: string;
+  key: string;
+  value: unknown;
+}): Promise<Stack> => {
+  const [rootKey] = key.split('.');
 
-  await saveStack({ stack: updatedStack });
-  return updatedStack;
+  if (!Object.hasOwn(STACK_SETTING_KEYS, rootKey)) {
+    throw new Error(
+      `Unknown setting '${rootKey}'. Available settings: ${getStackSettingKeys().join(', ')}`
+    );
+  }
+
+  return withLock({
+    key: `stack:${stackName}`,
+    task: async () => {
+      const stack = await loadStack({ stackName });
+
+      if (!stack) {
+        throw new Error(`Stack '${stackName}' not found.`);
+      }
+
+      const settings = cloneDeep(stack.settings ?? {});
+
+      if (value === undefined) {
+        unset(settings, key);
+      } else {
+        set(
+          settings,
+          key,
+          key === 'cwd' ? normalizeStackCwd(String(value)) : value
+        );
+      }
+
+      const updatedStack: Stack = {
+        ...stack,
+        settings,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await saveStack({ stack: updatedStack });
+      return updatedStack;
+    },
+  });
 };
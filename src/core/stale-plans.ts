@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import { loadPlanById } from './plan-parser.js';
+import { getDescendantPlanIds } from './dependency-graph.js';
+import type { Stack, StackExecutionStatus } from '../types/index.js';
+
+/**
+ * Hash a plan file's content, recorded when the plan completes
+ */
+export const hashPlanContent = (content: string): string =>
+  createHash('sha256').update(content).digest('hex');
+
+/**
+ * Find completed plans that are out of date and mark them stale in `status`.
+ *
+ * A plan is stale when its file changed since it completed, or when a plan
+ * it depends on, directly or transitively, is stale. Plans completed before
+ * hashes were recorded are never considered edited. Only the in-memory
+ * status is changed; returns the IDs of the newly stale plans.
+ */
+export const markStalePlans = async ({
+  stack,
+  status,
+}: {
+  stack: Stack;
+  status: StackExecutionStatus;
+}): Promise<string[]> => {
+  const outdatedPlanIds = new Set<string>();
+
+  await Promise.all(
+    stack.plans.map(async ({ planId }) => {
+      const planStatus = status.planStatuses[planId];
+
+      if (planStatus?.executionStatus === 'stale') {
+        outdatedPlanIds.add(planId);
+        return;
+      }
+
+      if (planStatus?.executionStatus !== 'completed' || !planStatus.contentHash) {
+        return;
+      }
+
+      const plan = await loadPlanById({ planId });
+
+      if (plan && hashPlanContent(plan.content) !== planStatus.contentHash) {
+        outdatedPlanIds.add(planId);
+      }
+    })
+  );
+
+  const stalePlanIds = new Set(outdatedPlanIds);
+  outdatedPlanIds.forEach((planId) => {
+    getDescendantPlanIds({ stackPlans: stack.plans, planId }).forEach(
+      (descendantId) => stalePlanIds.add(descendantId)
+    );
+  });
+
+  const newlyStalePlanIds = [...stalePlanIds].filter(
+    (planId) => status.planStatuses[planId]?.executionStatus === 'completed'
+  );
+
+  newlyStalePlanIds.forEach((planId) => {
+    status.planStatuses[planId] = {
+      ...status.planStatuses[planId],
+      executionStatus: 'stale',
+    };
+  });
+
+  return newlyStalePlanIds;
+};
@@ -0,0 +1,133 @@
+import type { ExecutionStatus } from '../types/index.js';
+
+export interface TemplateContext {
+  stackName: string;
+  planId: string;
+  planTitle: string;
+  vars: Record<string, string>;
+  env: Record<string, string | undefined>;
+  // Outcomes of the plan's dependencies, for `{{deps.<id>.status}}`
+  dependencyStatuses: Record<string, ExecutionStatus>;
+}
+
+const TEMPLATE_PATTERN = /\\?\{\{\s*([^{}]*?)\s*\}\}/g;
+
+// Only these are ours; other `{{...}}` (GitHub Actions, Helm, Jinja...) are
+// left as written
+const TEMPLATE_SCOPES = new Set(['stack', 'plan', 'vars', 'env', 'deps']);
+
+/**
+ * Look up a `{{...}}` expression, returning undefined when it isn't defined
+ */
+const resolveVariable = (
+  expression: string,
+  context: TemplateContext
+): string | undefined => {
+  const [scope, ...rest] = expression.split('.');
+  const key = rest.join('.');
+
+  switch (scope) {
+    case 'stack':
+      return key === 'name' ? context.stackName : undefined;
+    case 'plan':
+      return key === 'id'
+        ? context.planId
+        : key === 'title'
+          ? context.planTitle
+          : undefined;
+    case 'vars':
+      return Object.hasOwn(context.vars, key) ? context.vars[key] : undefined;
+    case 'env':
+      return context.env[key];
+    case 'deps': {
+      // Plan IDs may contain dots, so the field is the last segment
+      const field = rest[rest.length - 1];
+      const depId = rest.slice(0, -1).join('.');
+      return field === 'status' && Object.hasOwn(context.dependencyStatuses, depId)
+        ? context.dependencyStatuses[depId]
+        : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Fill in `{{stack.name}}`, `{{plan.id}}`, `{{plan.title}}`, `{{vars.<key>}}`,
+ * `{{env.<NAME>}}` and `{{deps.<id>.status}}` in plan content.
+ *
+ * Expressions outside these scopes, like `${{ matrix.os }}`, are left as they
+ * are, and so is `{{` after a backslash. Throws listing every variable that
+ * isn't defined.
+ */
+export const renderPlanTemplate = ({
+  content,
+  context,
+}: {
+  content: string;
+  context: TemplateContext;
+}): string => {
+  const undefinedVariables = new Set<string>();
+
+  const rendered = content.replace(
+    TEMPLATE_PATTERN,
+    (match, expression: string) => {
+      if (match.startsWith('\\')) return match.slice(1);
+      if (!TEMPLATE_SCOPES.has(expression.split('.')[0])) return match;
+
+      const value = resolveVariable(expression, context);
+      if (value === undefined) undefinedVariables.add(`{{${expression}}}`);
+      return value ?? match;
+    }
+  );
+
+  if (undefinedVariables.size > 0) {
+    throw new Error(
+      `Undefined template ${undefinedVariables.size === 1 ? 'variable' : 'variables'}: ${[...undefinedVariables].join(', ')}`
+    );
+  }
+
+  return rendered;
+};
+
+/**
+ * Parse `key=value` pairs given to `cc run --var`. Throws on a pair without
+ * a key.
+ */
+export const parseVarAssignments = (
+  assignments: string[]
+): Record<string, string> =>
+  Object.fromEntries(
+    assignments.map((assignment) => {
+      const separatorIndex = assignment.indexOf('=');
+
+      if (separatorIndex <= 0) {
+        throw new Error(`Invalid variable '${assignment}': expected key=value.`);
+      }
+
+      return [
+        assignment.slice(0, separatorIndex),
+        assignment.slice(separatorIndex + 1),
+      ];
+    })
+  );
+
+/**
+ * Merge the stack's `vars` setting with variables from the command line,
+ * which win. Non-string setting values are converted to strings.
+ */
+export const resolveTemplateVars = ({
+  stackVars,
+  vars,
+}: {
+  stackVars?: Record<string, unknown> | null;
+  vars?: Record<string, string> | null;
+}): Record<string, string> => ({
+  ...Object.fromEntries(
+    Object.entries(stackVars ?? {}).map(([key, value]) => [
+      key,
+      typeof value === 'string' ? value : JSON.stringify(value),
+    ])
+  ),
+  ...vars,
+});
@@ -0,0 +1,72 @@
+import { stat } from 'fs/promises';
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import type { Plan, Stack } from '../types/index.js';
+
+const expandHome = (path: string): string =>
+  path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+
+/**
+ * Make a stack `cwd` setting absolute, so the stack runs in the same place
+ * wherever `cc` is started. Relative paths are resolved against the current
+ * directory.
+ */
+export const normalizeStackCwd = (cwd: string): string =>
+  resolve(process.cwd(), expandHome(cwd));
+
+/**
+ * The directory a stack's plans run in: its `cwd` setting, or the directory
+ * `cc` was started in when it isn't set
+ */
+export const resolveStackRoot = ({ stack }: { stack: Stack }): string =>
+  normalizeStackCwd(String(stack.settings?.cwd ?? '.'));
+
+/**
+ * The directory a plan runs in. A `cwd` in its frontmatter is resolved
+ * against the stack's root.
+ */
+export const resolvePlanCwd = ({
+  stack,
+  plan,
+}: {
+  stack: Stack;
+  plan?: Pick<Plan, 'cwd'> | null;
+}): string =>
+  resolve(resolveStackRoot({ stack }), expandHome(String(plan?.cwd ?? '.')));
+
+/**
+ * The environment variables a plan adds to the inherited environment: the
+ * stack's `env` setting, overridden by the plan's frontmatter. Non-string
+ * values are converted to strings.
+ */
+export const resolvePlanEnv = ({
+  stack,
+  plan,
+}: {
+  stack: Stack;
+  plan?: Pick<Plan, 'env'> | null;
+}): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries({ ...stack.settings?.env, ...plan?.env }).map(
+      ([name, value]) => [
+        name,
+        typeof value === 'string' ? value : JSON.stringify(value),
+      ]
+    )
+  );
+
+/**
+ * Check that a working directory exists, returning an error message if not
+ */
+export const checkWorkingDirectory = async (
+  cwd: string
+): Promise<string | null> => {
+  try {
+    const stats = await stat(cwd);
+    return stats.isDirectory()
+      ? null
+      : `Working directory '${cwd}' is not a directory.`;
+  } catch {
+    return `Working directory '${cwd}' does not exist.`;
+  }
+};
@@ -0,0 +1,367 @@
+import { rm } from 'fs/promises';
+import { isAbsolute, join, relative } from 'path';
+import {
+  addWorktree,
+  branchExists,
+  checkoutBranch,
+  checkoutPlanBranch,
+  commitAll,
+  ensureBranch,
+  getCurrentBranch,
+  getPlanBranchName,
+  getRepositoryRoot,
+  hasUncommittedChanges,
+  isGitRepository,
+  mergeBranch,
+  pruneWorktrees,
+  removeWorktree,
+} from './git.js';
+import { getConfigDir } from '../storage/config.js';
+import { withLock } from '../storage/lock.js';
+import type { ExecutionStatus, Stack } from '../types/index.js';
+
+export interface WorktreeContext {
+  integrationBranch: string;
+  integrationPath: string;
+  worktreesDir: string;
+  keepWorktrees: boolean;
+}
+
+export interface StackGitContext {
+  stackName: string;
+  cwd: string;
+  repoRoot: string;
+  baseBranch: string;
+  originalBranch: string;
+  branchPrefix: string;
+  worktree: WorktreeContext | null;
+}
+
+export interface PlanWorkspace {
+  branchName: string;
+  baseBranch: string;
+  cwd: string;
+  worktreePath: string | null;
+}
+
+const getWorktreesDir = (stackName: string): string =>
+  join(getConfigDir(), 'worktrees', stackName);
+
+// Plan worktrees get a directory of their own, so no plan ID can clash with
+// the integration worktree
+const getPlanWorktreePath = ({
+  worktreesDir,
+  planId,
+}: {
+  worktreesDir: string;
+  planId: string;
+}): string => join(worktreesDir, 'plans', planId);
+
+/**
+ * Serialize operations that change shared repository state (refs, worktree
+ * list), since plans running in parallel finish and start concurrently
+ */
+const withRepoLock = <T>({
+  gitContext,
+  task,
+}: {
+  gitContext: StackGitContext;
+  task: () => Promise<T>;
+}): Promise<T> => withLock({ key: `git:${gitContext.repoRoot}`, task });
+
+/**
+ * Remove a worktree left behind by an earlier run, if any
+ */
+const clearWorktree = async ({
+  path,
+  repoRoot,
+}: {
+  path: string;
+  repoRoot: string;
+}): Promise<void> => {
+  await removeWorktree({ path, cwd: repoRoot }).catch(() => undefined);
+  await rm(path, { recursive: true, force: true });
+  await pruneWorktrees({ cwd: repoRoot });
+};
+
+/**
+ * Check that git mode can run and set up what the stack needs.
+ *
+ * Without worktrees, plans run one at a time in the current checkout, so it
+ * must be clean. With worktrees, plans run in their own checkouts and their
+ * branches are merged into an integration branch, which lives in a worktree
+ * of its own so the user's checkout is never touched.
+ *
+ * With `resetIntegrationBranch`, set when no completed plans are reused, the
+ * integration branch starts over from the base branch instead of keeping
+ * merges from earlier runs.
+ *
+ * The repository is the one containing `cwd`, the stack's root.
+ */
+export const prepareStackGit = async ({
+  stack,
+  cwd,
+  concurrency,
+  useWorktrees,
+  keepWorktrees,
+  resetIntegrationBranch = false,
+}: {
+  stack: Stack;
+  cwd: string;
+  concurrency: number;
+  useWorktrees: boolean;
+  keepWorktrees: boolean;
+  resetIntegrationBranch?: boolean;
+}): Promise<StackGitContext> => {
+  const gitSettings = stack.settings?.git;
+
+  if (!(await isGitRepository({ cwd }))) {
+    throw new Error(
+      `Git mode requires running inside a git repository, but '${cwd}' is not in one.`
+    );
+  }
+
+  if (!useWorktrees && concurrency > 1) {
+    throw new Error(
+      'Git mode runs every plan in the same checkout, so concurrency must be 1. Use worktrees to run plans in parallel.'
+    );
+  }
+
+  if (!useWorktrees && (await hasUncommittedChanges({ cwd }))) {
+    throw new Error(
+      'Git mode requires a clean working tree. Commit or stash your changes first.'
+    );
+  }
+
+  const repoRoot = await getRepositoryRoot({ cwd });
+  const originalBranch = await getCurrentBranch({ cwd });
+  const baseBranch = gitSettings?.baseBranch ?? originalBranch;
+  const branchPrefix = gitSettings?.branchPrefix ?? '';
+
+  const context: StackGitContext = {
+    stackName: stack.stackName,
+    cwd,
+    repoRoot,
+    baseBranch,
+    originalBranch,
+    branchPrefix,
+    worktree: null,
+  };
+
+  if (!useWorktrees) {
+    return context;
+  }
+
+  const integrationBranch =
+    gitSettings?.integrationBranch ??
+    getPlanBranchName({
+      stackName: stack.stackName,
+      planId: 'integration',
+      branchPrefix,
+    });
+  const clashingPlan = stack.plans.find(
+    (sp) =>
+      getPlanBranchName({
+        stackName: stack.stackName,
+        planId: sp.planId,
+        branchPrefix,
+      }) === integrationBranch
+  );
+
+  if (clashingPlan) {
+    throw new Error(
+      `Plan '${clashingPlan.planId}' would use the integration branch '${integrationBranch}'. Rename the plan or set git.integrationBranch.`
+    );
+  }
+
+  const worktreesDir = getWorktreesDir(stack.stackName);
+  const integrationPath = join(worktreesDir, '_integration');
+
+  if (!resetIntegrationBranch) {
+    await ensureBranch({ branchName: integrationBranch, baseRef: baseBranch, cwd });
+  }
+  await clearWorktree({ path: integrationPath, repoRoot });
+  await addWorktree({
+    path: integrationPath,
+    branchName: integrationBranch,
+    baseRef: resetIntegrationBranch ? baseBranch : undefined,
+    cwd: repoRoot,
+  });
+
+  return {
+    ...context,
+    worktree: {
+      integrationBranch,
+      integrationPath,
+      worktreesDir,
+      keepWorktrees,
+    },
+  };
+};
+
+/**
+ * Create the branch (and worktree, if enabled) a plan runs in.
+ *
+ * In worktree mode the branch starts from the integration branch, which
+ * already has every completed dependency merged in. Otherwise it is stacked
+ * on the dependency branches in the current checkout.
+ *
+ * With `reuseBranch`, an existing plan branch is checked out as-is so a
+ * resumed plan keeps the work from its earlier run.
+ *
+ * The plan runs in `cwd` (the stack's root by default), mapped into the
+ * plan's worktree when there is one. Throws if a worktree plan's directory
+ * is outside the repository.
+ */
+export const preparePlanWorkspace = async ({
+  gitContext,
+  planId,
+  dependencyBranches,
+  reuseBranch = false,
+  cwd = gitContext.cwd,
+}: {
+  gitContext: StackGitContext;
+  planId: string;
+  dependencyBranches: string[];
+  reuseBranch?: boolean;
+  cwd?: string;
+}): Promise<PlanWorkspace> => {
+  const branchName = getPlanBranchName({
+    stackName: gitContext.stackName,
+    planId,
+    branchPrefix: gitContext.branchPrefix,
+  });
+  const keepBranch =
+    reuseBranch &&
+    (await branchExists({ branchName, cwd: gitContext.repoRoot }));
+
+  if (!gitContext.worktree && keepBranch) {
+    await checkoutBranch({ branchName, cwd: gitContext.cwd });
+    const [baseBranch = gitContext.baseBranch] = dependencyBranches;
+    return { branchName, baseBranch, cwd, worktreePath: null };
+  }
+
+  if (!gitContext.worktree) {
+    const { baseBranch } = await checkoutPlanBranch({
+      branchName,
+      baseBranch: gitContext.baseBranch,
+      dependencyBranches,
+      cwd: gitContext.cwd,
+    });
+    return { branchName, baseBranch, cwd, worktreePath: null };
+  }
+
+  // Run from the same subdirectory of the repository in the worktree
+  const subdirectory = relative(gitContext.repoRoot, cwd);
+
+  if (subdirectory.startsWith('..') || isAbsolute(subdirectory)) {
+    throw new Error(
+      `Working directory '${cwd}' is outside the repository, so the plan can't run in a worktree.`
+    );
+  }
+
+  const { integrationBranch, worktreesDir } = gitContext.worktree;
+  const worktreePath = getPlanWorktreePath({ worktreesDir, planId });
+
+  await withRepoLock({
+    gitContext,
+    task: async () => {
+      await clearWorktree({ path: worktreePath, repoRoot: gitContext.repoRoot });
+      await addWorktree({
+        path: worktreePath,
+        branchName,
+        baseRef: keepBranch ? undefined : integrationBranch,
+        cwd: gitContext.repoRoot,
+      });
+    },
+  });
+
+  return {
+    branchName,
+    baseBranch: integrationBranch,
+    cwd: join(worktreePath, subdirectory),
+    worktreePath,
+  };
+};
+
+/**
+ * Commit a plan's changes to its branch and, in worktree mode, merge a
+ * successful plan into the integration branch.
+ *
+ * Failed or interrupted work is committed as WIP so it can be reviewed and
+ * the checkout is clean for the next plan. Throws on commit failures and
+ * merge conflicts.
+ */
+export const finishPlanWorkspace = async ({
+  gitContext,
+  workspace,
+  title,
+  executionStatus,
+}: {
+  gitContext: StackGitContext;
+  workspace: PlanWorkspace;
+  title: string;
+  executionStatus: ExecutionStatus;
+}): Promise<{ commit: string | null }> => {
+  const succeeded = executionStatus === 'completed';
+  const commit = await commitAll({
+    message: succeeded ? title : `WIP: ${title} (${executionStatus})`,
+    cwd: workspace.worktreePath ?? gitContext.cwd,
+  });
+
+  if (succeeded && gitContext.worktree) {
+    const { integrationPath } = gitContext.worktree;
+
+    await withRepoLock({
+      gitContext,
+      task: () =>
+        mergeBranch({ branchName: workspace.branchName, cwd: integrationPath }),
+    });
+  }
+
+  return { commit };
+};
+
+/**
+ * Remove a plan's worktree unless worktrees are being kept
+ */
+export const cleanupPlanWorkspace = async ({
+  gitContext,
+  workspace,
+}: {
+  gitContext: StackGitContext;
+  workspace: PlanWorkspace;
+}): Promise<void> => {
+  const { worktreePath } = workspace;
+  if (!worktreePath || gitContext.worktree?.keepWorktrees) return;
+
+  await withRepoLock({
+    gitContext,
+    task: () =>
+      clearWorktree({ path: worktreePath, repoRoot: gitContext.repoRoot }),
+  });
+};
+
+/**
+ * Restore the user's checkout after a run and clean up the integration worktree
+ */
+export const finishStackGit = async ({
+  gitContext,
+}: {
+  gitContext: StackGitContext;
+}): Promise<void> => {
+  if (!gitContext.worktree) {
+    await checkoutBranch({
+      branchName: gitContext.originalBranch,
+      cwd: gitContext.cwd,
+    });
+    return;
+  }
+
+  if (!gitContext.worktree.keepWorktrees) {
+    await clearWorktree({
+      path: gitContext.worktree.integrationPath,
+      repoRoot: gitContext.repoRoot,
+    });
+  }
+};
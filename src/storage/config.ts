@@ -1,6 +1,7 @@
 import { mkdir, readFile, writeFile, access } from 'fs/promises';
 import { join } from 'path';
 import { homedir } from 'os';
+import type { HookSettings } from '../types/index.js';
 
 const CONFIG_DIR = join(homedir(), '.claude-stack');
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
@@ -9,6 +10,9 @@ export interface Config {
   plansDirectory: string;
   defaultClaude: string;
   autoResolveDependencies: boolean;
+  hooks?: HookSettings;
+  // Runs kept in each stack's history, with their logs; 0 keeps every run
+  historyRetention?: number;
 }
 
 const DEFAULT_CONFIG: Config = {
@@ -24,6 +28,8 @@ export const ensureConfigDir = async (): Promise<void> => {
   await mkdir(CONFIG_DIR, { recursive: true });
   await mkdir(join(CONFIG_DIR, 'stacks'), { recursive: true });
   await mkdir(join(CONFIG_DIR, 'status'), { recursive: true });
+  await mkdir(join(CONFIG_DIR, 'logs'), { recursive: true });
+  await mkdir(join(CONFIG_DIR, 'history'), { recursive: true });
 };
 
 /**
@@ -0,0 +1,162 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { getConfigDir } from './config.js';
+import { deleteRunLogs, listLogRuns } from './log-store.js';
+import { withLock } from './lock.js';
+import type { RunRecord } from '../types/index.js';
+
+// Runs kept per stack when the config doesn't set `historyRetention`
+export const DEFAULT_HISTORY_RETENTION = 20;
+
+const getHistoryDir = ({ stackName }: { stackName: string }): string =>
+  join(getConfigDir(), 'history', stackName);
+
+const getHistoryLockKey = (stackName: string): string => `history:${stackName}`;
+
+const writeRunRecord = async (record: RunRecord): Promise<void> => {
+  const historyDir = getHistoryDir({ stackName: record.stackName });
+  await mkdir(historyDir, { recursive: true });
+  await writeFile(
+    join(historyDir, `${record.runId}.json`),
+    JSON.stringify(record, null, 2)
+  );
+};
+
+/**
+ * Save a run's record, replacing any earlier snapshot of the same run
+ */
+export const saveRunRecord = async ({
+  record,
+}: {
+  record: RunRecord;
+}): Promise<void> => {
+  await withLock({
+    key: getHistoryLockKey(record.stackName),
+    task: () => writeRunRecord(record),
+  });
+};
+
+/**
+ * Load one run's record, or null if it is not in the history
+ */
+export const loadRunRecord = async ({
+  stackName,
+  runId,
+}: {
+  stackName: string;
+  runId: string;
+}): Promise<RunRecord | null> => {
+  try {
+    const content = await readFile(
+      join(getHistoryDir({ stackName }), `${runId}.json`),
+      'utf-8'
+    );
+    return JSON.parse(content) as RunRecord;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Mark a run whose process is gone as interrupted, if its record still says
+ * it is running. Returns whether the record was updated.
+ */
+export const markRunInterrupted = async ({
+  stackName,
+  runId,
+}: {
+  stackName: string;
+  runId: string;
+}): Promise<boolean> =>
+  withLock({
+    key: getHistoryLockKey(stackName),
+    task: async () => {
+      const record = await loadRunRecord({ stackName, runId });
+      if (record?.runStatus !== 'running') return false;
+
+      await writeRunRecord({
+        ...record,
+        runStatus: 'interrupted',
+        endedAt: new Date().toISOString(),
+      });
+      return true;
+    },
+  });
+
+const listRecordedRunIds = async ({
+  stackName,
+}: {
+  stackName: string;
+}): Promise<string[]> => {
+  try {
+    const files = await readdir(getHistoryDir({ stackName }));
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Load every recorded run of a stack, newest first
+ */
+export const listRunRecords = async ({
+  stackName,
+}: {
+  stackName: string;
+}): Promise<RunRecord[]> => {
+  const runIds = (await listRecordedRunIds({ stackName })).sort().reverse();
+  const records = await Promise.all(
+    runIds.map((runId) => loadRunRecord({ stackName, runId }))
+  );
+
+  return records.filter((record): record is RunRecord => record !== null);
+};
+
+/**
+ * Delete all but the newest `keepRuns` runs of a stack, with their logs.
+ *
+ * Runs that only have logs count too, so logs from before run history was
+ * recorded are pruned as well. Runs in `keepRunIds`, such as those whose logs
+ * plan statuses still point to, are never deleted. A `keepRuns` of 0 keeps
+ * everything. Returns the IDs of the deleted runs.
+ */
+export const pruneRunHistory = async ({
+  stackName,
+  keepRuns = DEFAULT_HISTORY_RETENTION,
+  keepRunIds = [],
+}: {
+  stackName: string;
+  keepRuns?: number;
+  keepRunIds?: string[];
+}): Promise<string[]> => {
+  if (keepRuns <= 0) return [];
+
+  return withLock({
+    key: getHistoryLockKey(stackName),
+    task: async () => {
+      const runIds = [
+        ...new Set([
+          ...(await listRecordedRunIds({ stackName })),
+          ...(await listLogRuns({ stackName })),
+        ]),
+      ]
+        .sort()
+        .reverse();
+
+      const prunedRunIds = runIds
+        .slice(keepRuns)
+        .filter((runId) => !keepRunIds.includes(runId));
+
+      for (const runId of prunedRunIds) {
+        await rm(join(getHistoryDir({ stackName }), `${runId}.json`), {
+          force: true,
+        });
+        await deleteRunLogs({ stackName, runId });
+      }
+
+      return prunedRunIds;
+    },
+  });
+};
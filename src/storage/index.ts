@@ -1,3 +1,5 @@
 export * from './config.js';
 export * from './stack-store.js';
 export * from './status-store.js';
+export * from './log-store.js';
+export * from './history-store.js';
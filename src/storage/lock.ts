@@ -0,0 +1,28 @@
+const pendingTasks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a task exclusively for the given key.
+ *
+ * Storage updates are read-modify-write cycles on JSON files, so two plans
+ * finishing at the same time would otherwise overwrite each other's changes.
+ * Tasks sharing a key are chained and run one after another.
+ */
+export const withLock = async <T>({
+  key,
+  task,
+}: {
+  key: string;
+  task: () => Promise<T>;
+}): Promise<T> => {
+  const previous = pendingTasks.get(key) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  pendingTasks.set(key, current);
+
+  try {
+    return await current;
+  } finally {
+    if (pendingTasks.get(key) === current) {
+      pendingTasks.delete(key);
+    }
+  }
+};
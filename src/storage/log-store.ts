@@ -0,0 +1,165 @@
+import { appendFile, mkdir, readdir, readFile, open, rm } from 'fs/promises';
+import { createWriteStream, type WriteStream } from 'fs';
+import { basename, join, dirname } from 'path';
+import { getConfigDir } from './config.js';
+
+const getLogsDir = (): string => join(getConfigDir(), 'logs');
+
+const getRunLogDir = ({
+  stackName,
+  runId,
+}: {
+  stackName: string;
+  runId: string;
+}): string => join(getLogsDir(), stackName, runId);
+
+/**
+ * Create a sortable, filesystem-safe ID for a new run
+ */
+export const createRunId = (): string =>
+  new Date().toISOString().replace(/[:.]/g, '-');
+
+/**
+ * Get the log file path for a plan within a run
+ */
+export const getPlanLogPath = ({
+  stackName,
+  runId,
+  planId,
+}: {
+  stackName: string;
+  runId: string;
+  planId: string;
+}): string => join(getRunLogDir({ stackName, runId }), `${planId}.log`);
+
+/**
+ * Get the ID of the run a plan log file belongs to
+ */
+export const getLogRunId = ({ logPath }: { logPath: string }): string =>
+  basename(dirname(logPath));
+
+/**
+ * Open a plan's log file for writing, creating its run directory if needed
+ */
+export const openPlanLog = async ({
+  logPath,
+}: {
+  logPath: string;
+}): Promise<WriteStream> => {
+  await mkdir(dirname(logPath), { recursive: true });
+  return createWriteStream(logPath, { flags: 'a' });
+};
+
+/**
+ * Append text to a plan's log file, creating its run directory if needed
+ */
+export const appendPlanLog = async ({
+  logPath,
+  text,
+}: {
+  logPath: string;
+  text: string;
+}): Promise<void> => {
+  await mkdir(dirname(logPath), { recursive: true });
+  await appendFile(logPath, text);
+};
+
+/**
+ * List run IDs that have logs for a stack, newest first
+ */
+export const listLogRuns = async ({
+  stackName,
+}: {
+  stackName: string;
+}): Promise<string[]> => {
+  try {
+    const entries = await readdir(join(getLogsDir(), stackName), {
+      withFileTypes: true,
+    });
+    return entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort()
+      .reverse();
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Delete every log of a run
+ */
+export const deleteRunLogs = async ({
+  stackName,
+  runId,
+}: {
+  stackName: string;
+  runId: string;
+}): Promise<void> => {
+  await rm(getRunLogDir({ stackName, runId }), { recursive: true, force: true });
+};
+
+/**
+ * List plan IDs that have a log file in a run
+ */
+export const listRunLogPlanIds = async ({
+  stackName,
+  runId,
+}: {
+  stackName: string;
+  runId: string;
+}): Promise<string[]> => {
+  try {
+    const files = await readdir(getRunLogDir({ stackName, runId }));
+    return files
+      .filter((file) => file.endsWith('.log'))
+      .map((file) => file.slice(0, -'.log'.length));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Read a plan's log file, or null if it does not exist
+ */
+export const readPlanLog = async ({
+  logPath,
+}: {
+  logPath: string;
+}): Promise<string | null> => {
+  try {
+    return await readFile(logPath, 'utf-8');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read whatever has been appended to a log file since `offset`
+ */
+export const readPlanLogFrom = async ({
+  logPath,
+  offset,
+}: {
+  logPath: string;
+  offset: number;
+}): Promise<{ text: string; offset: number }> => {
+  try {
+    const handle = await open(logPath, 'r');
+
+    try {
+      const { size } = await handle.stat();
+      if (size <= offset) {
+        return { text: '', offset };
+      }
+
+      const buffer = Buffer.alloc(size - offset);
+      await handle.read(buffer, 0, buffer.length, offset);
+      return { text: buffer.toString('utf-8'), offset: size };
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return { text: '', offset };
+  }
+};
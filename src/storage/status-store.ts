@@ -1,14 +1,21 @@
 import { readFile, writeFile } from 'fs/promises';
+import { hostname } from 'os';
 import { join } from 'path';
 import { getConfigDir, ensureConfigDir } from './config.js';
+import { withLock } from './lock.js';
 import type {
+  ClaudeRunSummary,
   StackExecutionStatus,
   PlanExecutionStatus,
+  PlanAttempt,
   ExecutionStatus,
+  VerificationResult,
 } from '../types/index.js';
 
 const getStatusDir = (): string => join(getConfigDir(), 'status');
 
+const getStatusLockKey = (stackName: string): string => `status:${stackName}`;
+
 /**
  * Create a default execution status for a stack
  */
@@ -97,6 +104,16 @@ export const updatePlanStatus = async ({
   errorMessage,
   exitCode,
   executionDurationMs,
+  logPath,
+  attempts,
+  gitBranch,
+  gitBaseBranch,
+  gitCommit,
+  verification,
+  failedVerifyCommand,
+  claudeRun,
+  sessionId,
+  contentHash,
 }: {
   stackName: string;
   planIds: string[];
@@ -105,56 +122,241 @@ export const updatePlanStatus = async ({
   errorMessage?: string | null;
   exitCode?: number | null;
   executionDurationMs?: number | null;
+  logPath?: string | null;
+  attempts?: PlanAttempt[] | null;
+  gitBranch?: string | null;
+  gitBaseBranch?: string | null;
+  gitCommit?: string | null;
+  verification?: VerificationResult[] | null;
+  failedVerifyCommand?: string | null;
+  claudeRun?: ClaudeRunSummary | null;
+  sessionId?: string | null;
+  contentHash?: string | null;
 }): Promise<void> => {
-  const status = await loadStackStatus({ stackName, planIds });
+  await withLock({
+    key: getStatusLockKey(stackName),
+    task: async () => {
+      const status = await loadStackStatus({ stackName, planIds });
 
-  const planStatus: PlanExecutionStatus = {
-    planId,
-    executionStatus,
-    lastExecutedAt: new Date().toISOString(),
-    executionDurationMs: executionDurationMs ?? null,
-    errorMessage: errorMessage ?? null,
-    exitCode: exitCode ?? null,
-  };
+      const planStatus: PlanExecutionStatus = {
+        planId,
+        executionStatus,
+        lastExecutedAt: new Date().toISOString(),
+        executionDurationMs: executionDurationMs ?? null,
+        errorMessage: errorMessage ?? null,
+        exitCode: exitCode ?? null,
+        logPath: logPath ?? null,
+        attempts: attempts ?? null,
+        gitBranch: gitBranch ?? null,
+        gitBaseBranch: gitBaseBranch ?? null,
+        gitCommit: gitCommit ?? null,
+        verification: verification ?? null,
+        failedVerifyCommand: failedVerifyCommand ?? null,
+        claudeRun: claudeRun ?? null,
+        sessionId: sessionId ?? null,
+        contentHash: contentHash ?? null,
+      };
 
-  status.planStatuses[planId] = planStatus;
-  status.lastRunAt = new Date().toISOString();
+      status.planStatuses[planId] = planStatus;
+      status.lastRunAt = new Date().toISOString();
 
-  await saveStackStatus({ status });
+      await saveStackStatus({ status });
+    },
+  });
 };
 
 /**
- * Mark stack as running/not running
+ * Mark stack as running/not running.
+ *
+ * A running stack records the owning process so a lock left behind by a
+ * crash can be detected.
  */
 export const setStackRunning = async ({
   stackName,
   planIds,
   isRunning,
+  runId,
 }: {
   stackName: string;
   planIds: string[];
   isRunning: boolean;
+  runId?: string;
 }): Promise<void> => {
-  const status = await loadStackStatus({ stackName, planIds });
-  status.isRunning = isRunning;
+  await withLock({
+    key: getStatusLockKey(stackName),
+    task: async () => {
+      const status = await loadStackStatus({ stackName, planIds });
+      status.isRunning = isRunning;
 
-  if (isRunning) {
-    status.lastRunAt = new Date().toISOString();
-  }
+      if (isRunning) {
+        status.lastRunAt = new Date().toISOString();
+        status.lastRunId = runId ?? null;
+        status.runLock = {
+          pid: process.pid,
+          hostname: hostname(),
+          startedAt: new Date().toISOString(),
+        };
+      } else {
+        status.runLock = null;
+      }
 
-  await saveStackStatus({ status });
+      await saveStackStatus({ status });
+    },
+  });
 };
 
 /**
- * Reset all plan statuses to pending
+ * Reset all plan statuses to pending, or only those in `resetPlanIds`
  */
 export const resetStackStatus = async ({
   stackName,
   planIds,
+  resetPlanIds,
 }: {
   stackName: string;
   planIds: string[];
+  resetPlanIds?: string[];
 }): Promise<void> => {
-  const status = createDefaultStatus({ stackName, planIds });
-  await saveStackStatus({ status });
+  await withLock({
+    key: getStatusLockKey(stackName),
+    task: async () => {
+      const defaultStatus = createDefaultStatus({ stackName, planIds });
+
+      if (!resetPlanIds) {
+        await saveStackStatus({ status: defaultStatus });
+        return;
+      }
+
+      const status = await loadStackStatus({ stackName, planIds });
+      resetPlanIds.forEach((planId) => {
+        status.planStatuses[planId] = defaultStatus.planStatuses[planId];
+      });
+      await saveStackStatus({ status });
+    },
+  });
+};
+
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+/**
+ * Check whether a stack is marked as running by a process that no longer
+ * exists.
+ *
+ * Only locks taken on this host can be checked; locks held by other hosts are
+ * assumed to be live.
+ */
+export const isRunLockStale = ({
+  status,
+}: {
+  status: StackExecutionStatus;
+}): boolean => {
+  if (!status.isRunning) return false;
+
+  // Runs started before owners were recorded can't be checked
+  if (!status.runLock) return true;
+
+  if (status.runLock.hostname !== hostname()) return false;
+
+  return !isProcessAlive(status.runLock.pid);
+};
+
+/**
+ * Clear a stack's run lock and reset plans stuck in `running` to pending.
+ *
+ * Returns the IDs of the plans that were reset.
+ */
+export const clearRunLock = async ({
+  stackName,
+  planIds,
+}: {
+  stackName: string;
+  planIds: string[];
+}): Promise<string[]> =>
+  withLock({
+    key: getStatusLockKey(stackName),
+    task: async () => {
+      const status = await loadStackStatus({ stackName, planIds });
+
+      const resetPlanIds = Object.values(status.planStatuses)
+        .filter((planStatus) => planStatus.executionStatus === 'running')
+        .map((planStatus) => planStatus.planId);
+
+      resetPlanIds.forEach((planId) => {
+        status.planStatuses[planId] = {
+          ...status.planStatuses[planId],
+          executionStatus: 'pending',
+        };
+      });
+
+      status.isRunning = false;
+      status.runLock = null;
+
+      await saveStackStatus({ status });
+      return resetPlanIds;
+    },
+  });
+
+/**
+ * Approve a gated plan so the next run starts it without asking
+ */
+export const approvePlan = async ({
+  stackName,
+  planIds,
+  planId,
+}: {
+  stackName: string;
+  planIds: string[];
+  planId: string;
+}): Promise<void> => {
+  await withLock({
+    key: getStatusLockKey(stackName),
+    task: async () => {
+      const status = await loadStackStatus({ stackName, planIds });
+
+      status.planStatuses[planId] = {
+        ...status.planStatuses[planId],
+        executionStatus: 'pending',
+        approvedAt: new Date().toISOString(),
+      };
+
+      await saveStackStatus({ status });
+    },
+  });
+};
+
+/**
+ * Mark plans as stale, keeping the rest of their recorded status
+ */
+export const markPlansStale = async ({
+  stackName,
+  planIds,
+  stalePlanIds,
+}: {
+  stackName: string;
+  planIds: string[];
+  stalePlanIds: string[];
+}): Promise<void> => {
+  await withLock({
+    key: getStatusLockKey(stackName),
+    task: async () => {
+      const status = await loadStackStatus({ stackName, planIds });
+
+      stalePlanIds.forEach((planId) => {
+        status.planStatuses[planId] = {
+          ...status.planStatuses[planId],
+          executionStatus: 'stale',
+        };
+      });
+
+      await saveStackStatus({ status });
+    },
+  });
 };
@@ -9,19 +9,75 @@ export type PlanType =
   | 'review'
   | 'learning';
 
+export type ClaudeOutputFormat = 'text' | 'json' | 'stream-json';
+
+export interface ClaudeSettings {
+  model?: string;
+  permissionMode?: string;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  maxTurns?: number;
+  appendSystemPrompt?: string;
+  outputFormat?: ClaudeOutputFormat;
+}
+
+export type RunnerType = 'claude' | 'shell' | 'mock';
+
+export interface RunnerSettings {
+  type?: RunnerType;
+  // Command template for the shell runner
+  command?: string;
+}
+
+export interface MockSettings {
+  output?: string;
+  exitCode?: number;
+  delay?: string | number;
+  // Number of attempts that fail before the mock succeeds
+  failAttempts?: number;
+}
+
+// A gated plan waits for someone to approve it before running
+export type PlanGate = 'manual';
+
 export interface Plan {
   planId: string;
   filePath: string;
   title: string;
   planType: PlanType;
   references: string[];
+  // References that only order execution; their failure doesn't block
+  softReferences: string[];
   concepts: string[];
   content: string;
+  timeout: string | number | null;
+  retries: number | null;
+  verify: string[];
+  claude: ClaudeSettings | null;
+  runner: RunnerSettings | null;
+  mock: MockSettings | null;
+  // Condition on dependency outcomes, e.g. 'on_failure'
+  when: string | null;
+  gate: PlanGate | null;
+  // Working directory, relative to the stack's root
+  cwd: string | null;
+  env: Record<string, string> | null;
 }
 
 export interface ParsedFrontmatter {
   references?: string[];
+  softReferences?: string[];
   concepts?: string[];
+  timeout?: string | number;
+  retries?: number;
+  verify?: string | string[];
+  claude?: ClaudeSettings;
+  runner?: RunnerType | RunnerSettings;
+  mock?: MockSettings;
+  when?: string;
+  gate?: PlanGate;
+  cwd?: string;
+  env?: Record<string, string>;
 }
 
 export const TYPE_PREFIX_MAP: Record<string, PlanType> = {
@@ -1,3 +1,4 @@
+import type { ClaudeSettings, RunnerSettings } from './plan.js';
 import type { ExecutionStatus } from './status.js';
 
 export interface Stack {
@@ -5,13 +6,63 @@ export interface Stack {
   stackDescription?: string | null;
   plans: StackPlan[];
   rootPlanIds: string[];
+  settings?: StackSettings | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface DependencyContextSettings {
+  enabled: boolean;
+  maxChars?: number;
+}
+
+export interface GitSettings {
+  enabled: boolean;
+  baseBranch?: string;
+  branchPrefix?: string;
+  worktrees?: boolean;
+  integrationBranch?: string;
+}
+
+export interface HookSettings {
+  beforePlan?: string;
+  afterPlan?: string;
+  onPlanFailed?: string;
+  onStackComplete?: string;
+  // Longest each hook command may run, e.g. '5m'
+  timeout?: string | number;
+}
+
+export interface BudgetSettings {
+  // Longest a run may take, e.g. '2h'
+  maxDuration?: string | number;
+  // Most a run may spend on Claude, in USD
+  maxCost?: number;
+}
+
+export type FailurePolicy = 'fail-fast' | 'keep-going';
+
+export interface StackSettings {
+  dependencyContext?: DependencyContextSettings;
+  git?: GitSettings;
+  hooks?: HookSettings;
+  claude?: ClaudeSettings;
+  runner?: RunnerSettings;
+  failurePolicy?: FailurePolicy;
+  budget?: BudgetSettings;
+  // Values for `{{vars.<key>}}` in plan content
+  vars?: Record<string, string>;
+  // Stack root directory; plans run here unless their frontmatter says otherwise
+  cwd?: string;
+  // Extra environment variables for every plan
+  env?: Record<string, string>;
+}
+
 export interface StackPlan {
   planId: string;
   dependsOnPlanIds: string[];
+  // Dependencies that only order execution
+  softDependsOnPlanIds?: string[];
   executionStatus: ExecutionStatus;
   lastExecutedAt?: string | null;
   executionDurationMs?: number | null;
@@ -1,9 +1,41 @@
+import type { FailurePolicy } from './stack.js';
+
 export type ExecutionStatus =
   | 'pending'
   | 'running'
   | 'completed'
   | 'failed'
-  | 'skipped';
+  | 'skipped'
+  | 'interrupted'
+  | 'stale'
+  | 'awaiting_approval';
+
+export interface PlanAttempt {
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+  exitCode: number | null;
+  errorMessage: string | null;
+  timedOut: boolean;
+  sessionId?: string | null;
+}
+
+export interface VerificationResult {
+  command: string;
+  exitCode: number | null;
+  passed: boolean;
+  durationMs: number;
+  output: string;
+}
+
+export interface ClaudeRunSummary {
+  sessionId: string | null;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  numTurns: number;
+  resultText: string | null;
+}
 
 export interface PlanExecutionStatus {
   planId: string;
@@ -12,11 +44,79 @@ export interface PlanExecutionStatus {
   executionDurationMs?: number | null;
   errorMessage?: string | null;
   exitCode?: number | null;
+  logPath?: string | null;
+  attempts?: PlanAttempt[] | null;
+  gitBranch?: string | null;
+  gitBaseBranch?: string | null;
+  gitCommit?: string | null;
+  verification?: VerificationResult[] | null;
+  failedVerifyCommand?: string | null;
+  claudeRun?: ClaudeRunSummary | null;
+  sessionId?: string | null;
+  // Hash of the plan file when it last completed
+  contentHash?: string | null;
+  // Set by `cc approve` and cleared once the gated plan starts
+  approvedAt?: string | null;
+}
+
+export interface RunLock {
+  pid: number;
+  hostname: string;
+  startedAt: string;
 }
 
 export interface StackExecutionStatus {
   stackName: string;
   planStatuses: Record<string, PlanExecutionStatus>;
   lastRunAt?: string | null;
+  lastRunId?: string | null;
   isRunning: boolean;
+  runLock?: RunLock | null;
+}
+
+// `stopped` runs ran out of budget; `awaiting_approval` runs left gated
+// plans for `cc approve`
+export type RunStatus =
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'interrupted'
+  | 'stopped'
+  | 'awaiting_approval';
+
+// What a run was started with, as recorded in its history
+export interface RunRecordOptions {
+  concurrency: number;
+  timeoutMs: number | null;
+  retries: number;
+  git: boolean;
+  worktrees: boolean;
+  failurePolicy: FailurePolicy;
+  fromPlanId: string | null;
+  selectedPlanIds: string[] | null;
+  resumePlanId: string | null;
+  confirmEach: boolean;
+  maxDurationMs: number | null;
+  maxCostUsd: number | null;
+}
+
+export interface RunPlanResult {
+  planId: string;
+  executionStatus: ExecutionStatus;
+  durationMs: number;
+  errorMessage: string | null;
+  exitCode: number | null;
+  attempts: number;
+  costUsd: number | null;
+  logPath: string | null;
+}
+
+export interface RunRecord {
+  runId: string;
+  stackName: string;
+  startedAt: string;
+  endedAt: string | null;
+  runStatus: RunStatus;
+  options: RunRecordOptions;
+  planResults: RunPlanResult[];
 }
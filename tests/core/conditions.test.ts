@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  evaluateCondition,
+  isDefaultCondition,
+  validateCondition,
+} from '../../src/core/conditions.js';
+import type { ExecutionStatus } from '../../src/types/index.js';
+
+const evaluate = (
+  when: string | null,
+  dependencyStatuses: Record<string, ExecutionStatus>,
+  softDependsOnPlanIds?: string[]
+): boolean =>
+  evaluateCondition({ when, dependencyStatuses, softDependsOnPlanIds });
+
+describe('evaluateCondition', () => {
+  describe('keywords', () => {
+    it('on_success needs every dependency to have completed', () => {
+      expect(evaluate('on_success', { a: 'completed', b: 'completed' })).toBe(true);
+      expect(evaluate('on_success', { a: 'completed', b: 'failed' })).toBe(false);
+      expect(evaluate('on_success', { a: 'skipped' })).toBe(false);
+    });
+
+    it('treats a missing condition as on_success', () => {
+      expect(evaluate(null, { a: 'completed' })).toBe(true);
+      expect(evaluate(null, { a: 'failed' })).toBe(false);
+    });
+
+    it('on_success ignores soft dependencies', () => {
+      expect(evaluate('on_success', { a: 'completed', b: 'failed' }, ['b'])).toBe(
+        true
+      );
+    });
+
+    it('on_failure needs at least one failed dependency', () => {
+      expect(evaluate('on_failure', { a: 'completed', b: 'failed' })).toBe(true);
+      expect(evaluate('on_failure', { a: 'completed', b: 'skipped' })).toBe(false);
+    });
+
+    it('always runs whatever happened', () => {
+      expect(evaluate('always', { a: 'failed', b: 'skipped' })).toBe(true);
+    });
+  });
+
+  describe('expressions', () => {
+    it('matches dependency outcomes', () => {
+      const statuses: Record<string, ExecutionStatus> = {
+        a: 'completed',
+        b: 'failed',
+        c: 'skipped',
+      };
+
+      expect(evaluate('a.succeeded', statuses)).toBe(true);
+      expect(evaluate('b.failed', statuses)).toBe(true);
+      expect(evaluate('c.skipped', statuses)).toBe(true);
+      expect(evaluate('a.failed', statuses)).toBe(false);
+    });
+
+    it('supports plan IDs containing dots', () => {
+      expect(evaluate('v1.2-setup.failed', { 'v1.2-setup': 'failed' })).toBe(true);
+    });
+
+    it('binds && tighter than ||', () => {
+      // a.succeeded || (b.succeeded && c.succeeded)
+      expect(
+        evaluate('a.succeeded || b.succeeded && c.succeeded', {
+          a: 'completed',
+          b: 'failed',
+          c: 'failed',
+        })
+      ).toBe(true);
+
+      // (a.failed && b.failed) || c.succeeded
+      expect(
+        evaluate('a.failed && b.failed || c.succeeded', {
+          a: 'completed',
+          b: 'failed',
+          c: 'completed',
+        })
+      ).toBe(true);
+    });
+
+    it('lets parentheses override precedence', () => {
+      expect(
+        evaluate('(a.succeeded || b.succeeded) && c.succeeded', {
+          a: 'completed',
+          b: 'failed',
+          c: 'failed',
+        })
+      ).toBe(false);
+    });
+
+    it('applies ! to the following atom only', () => {
+      const statuses: Record<string, ExecutionStatus> = {
+        a: 'failed',
+        b: 'completed',
+      };
+
+      expect(evaluate('!a.succeeded && b.succeeded', statuses)).toBe(true);
+      expect(evaluate('!(a.failed && b.succeeded)', statuses)).toBe(false);
+      expect(evaluate('!!a.failed', statuses)).toBe(true);
+    });
+
+    it('combines keywords with outcomes', () => {
+      expect(
+        evaluate('on_failure && !b.skipped', { a: 'failed', b: 'completed' })
+      ).toBe(true);
+    });
+  });
+});
+
+describe('validateCondition', () => {
+  it('accepts conditions on the plan dependencies', () => {
+    expect(
+      validateCondition({
+        when: '(a.failed || b.skipped) && !on_success',
+        dependsOnPlanIds: ['a', 'b'],
+      })
+    ).toBeNull();
+  });
+
+  it('rejects plans that are not dependencies', () => {
+    expect(
+      validateCondition({ when: 'a.failed || c.failed', dependsOnPlanIds: ['a'] })
+    ).toBe("Invalid when 'a.failed || c.failed': 'c' is not a dependency of this plan.");
+  });
+
+  it.each([
+    ['(a.failed', "missing ')'"],
+    ['a.failed)', "unexpected ')'"],
+    ['a.failed &&', 'unexpected end of condition'],
+    ['a.failed & b.failed', "unexpected '&'"],
+    ['a.done', "'a.done' should be <plan>.succeeded, <plan>.failed or <plan>.skipped"],
+    ['a.failed b.failed', "unexpected 'b.failed'"],
+  ])("reports a syntax error in '%s'", (when, reason) => {
+    expect(validateCondition({ when, dependsOnPlanIds: ['a', 'b'] })).toBe(
+      `Invalid when '${when}': ${reason}.`
+    );
+  });
+});
+
+describe('isDefaultCondition', () => {
+  it('is true without a condition or with on_success', () => {
+    expect(isDefaultCondition(null)).toBe(true);
+    expect(isDefaultCondition('')).toBe(true);
+    expect(isDefaultCondition(' on_success ')).toBe(true);
+    expect(isDefaultCondition('always')).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getAncestorPlanIds,
+  getDescendantPlanIds,
+  selectPlanIds,
+} from '../../src/core/dependency-graph.js';
+import type {
+  ExecutionStatus,
+  PlanExecutionStatus,
+  StackPlan,
+} from '../../src/types/index.js';
+
+const stackPlan = (planId: string, dependsOnPlanIds: string[] = []): StackPlan => ({
+  planId,
+  dependsOnPlanIds,
+  executionStatus: 'pending',
+});
+
+const planStatus = (
+  planId: string,
+  executionStatus: ExecutionStatus
+): PlanExecutionStatus => ({ planId, executionStatus });
+
+//   setup ─┬─ api ── ui ─┬─ e2e
+//          └─ docs ──────┘
+//   lint
+const stackPlans: StackPlan[] = [
+  stackPlan('setup'),
+  stackPlan('api', ['setup']),
+  stackPlan('docs', ['setup']),
+  stackPlan('ui', ['api']),
+  stackPlan('e2e', ['ui', 'docs']),
+  stackPlan('lint'),
+];
+
+describe('getAncestorPlanIds', () => {
+  it('follows dependencies transitively', () => {
+    expect(getAncestorPlanIds({ stackPlans, planId: 'e2e' }).sort()).toEqual([
+      'api',
+      'docs',
+      'setup',
+      'ui',
+    ]);
+  });
+
+  it('stops at cycles', () => {
+    const cyclic = [stackPlan('a', ['b']), stackPlan('b', ['a'])];
+    expect(getAncestorPlanIds({ stackPlans: cyclic, planId: 'a' }).sort()).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+});
+
+describe('getDescendantPlanIds', () => {
+  it('follows dependents transitively', () => {
+    expect(getDescendantPlanIds({ stackPlans, planId: 'setup' }).sort()).toEqual([
+      'api',
+      'docs',
+      'e2e',
+      'ui',
+    ]);
+    expect(getDescendantPlanIds({ stackPlans, planId: 'lint' })).toEqual([]);
+  });
+});
+
+describe('selectPlanIds', () => {
+  const planStatuses: Record<string, PlanExecutionStatus> = {
+    setup: planStatus('setup', 'completed'),
+    api: planStatus('api', 'failed'),
+    docs: planStatus('docs', 'completed'),
+    ui: planStatus('ui', 'skipped'),
+    e2e: planStatus('e2e', 'skipped'),
+    lint: planStatus('lint', 'interrupted'),
+  };
+
+  const select = (
+    selection: Parameters<typeof selectPlanIds>[0]['selection']
+  ): string[] | null => selectPlanIds({ stackPlans, selection, planStatuses });
+
+  it('returns null when nothing is selected', () => {
+    expect(select({})).toBeNull();
+    expect(select({ only: [] })).toBeNull();
+  });
+
+  it('picks plans by ID in stack order, ignoring unknown IDs', () => {
+    expect(select({ only: ['lint', 'ui', 'missing'] })).toEqual(['ui', 'lint']);
+  });
+
+  it('picks a plan and its ancestors with until', () => {
+    expect(select({ until: 'e2e' })).toEqual(['setup', 'api', 'docs', 'ui', 'e2e']);
+    expect(select({ until: 'docs' })).toEqual(['setup', 'docs']);
+  });
+
+  it('picks a plan and its descendants with descendantsOf', () => {
+    expect(select({ descendantsOf: 'api' })).toEqual(['api', 'ui', 'e2e']);
+  });
+
+  it('picks failed and skipped plans with failed', () => {
+    expect(select({ failed: true })).toEqual(['api', 'ui', 'e2e']);
+  });
+
+  it('intersects only and until', () => {
+    expect(select({ only: ['api', 'docs', 'lint'], until: 'ui' })).toEqual(['api']);
+    expect(select({ only: ['lint'], until: 'ui' })).toEqual([]);
+  });
+
+  it('intersects until and descendantsOf', () => {
+    expect(select({ until: 'e2e', descendantsOf: 'api' })).toEqual([
+      'api',
+      'ui',
+      'e2e',
+    ]);
+  });
+
+  it('intersects failed with the other options', () => {
+    expect(select({ failed: true, until: 'ui' })).toEqual(['api', 'ui']);
+    expect(
+      select({ failed: true, descendantsOf: 'api', only: ['api', 'e2e'] })
+    ).toEqual(['api', 'e2e']);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseDuration } from '../../src/core/duration.js';
+
+describe('parseDuration', () => {
+  it('treats plain numbers as seconds', () => {
+    expect(parseDuration(90)).toBe(90_000);
+    expect(parseDuration('90')).toBe(90_000);
+    expect(parseDuration('1.5')).toBe(1_500);
+  });
+
+  it('parses single units', () => {
+    expect(parseDuration('500ms')).toBe(500);
+    expect(parseDuration('90s')).toBe(90_000);
+    expect(parseDuration('10m')).toBe(600_000);
+    expect(parseDuration('2h')).toBe(7_200_000);
+    expect(parseDuration('1.5h')).toBe(5_400_000);
+  });
+
+  it('adds up combined units', () => {
+    expect(parseDuration('1h30m')).toBe(5_400_000);
+    expect(parseDuration('1m30s500ms')).toBe(90_500);
+  });
+
+  it('ignores surrounding whitespace', () => {
+    expect(parseDuration(' 10m ')).toBe(600_000);
+  });
+
+  it.each(['', 'abc', '10x', 'h', '1h junk', '1h 30m', '-5', '-5s'])(
+    "returns null for '%s'",
+    (value) => {
+      expect(parseDuration(value)).toBeNull();
+    }
+  );
+
+  it('returns null for negative or non-finite numbers', () => {
+    expect(parseDuration(-1)).toBeNull();
+    expect(parseDuration(Infinity)).toBeNull();
+    expect(parseDuration(NaN)).toBeNull();
+  });
+});
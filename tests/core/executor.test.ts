@@ -0,0 +1,289 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { executeStack } from '../../src/core/executor.js';
+import { createStack } from '../../src/core/stack-manager.js';
+import { ensureConfigDir } from '../../src/storage/config.js';
+import type { ExecutionStatus } from '../../src/types/index.js';
+
+// Stacks, statuses, logs and plans all live under the home directory
+const home = vi.hoisted(
+  () =>
+    `${process.env.TMPDIR ?? '/tmp'}/cc-executor-test-${Math.random().toString(36).slice(2)}`
+);
+
+vi.mock('os', async (importOriginal) => {
+  const os = await importOriginal<typeof import('os')>();
+  const homedir = (): string => home;
+  return { ...os, default: { ...os, homedir }, homedir };
+});
+
+const plansDir = join(home, '.claude', 'plans');
+
+type PlanFrontmatter = Record<string, unknown>;
+
+/**
+ * Write plans that run with the mock runner, then create a stack of them
+ */
+const createMockStack = async (
+  plans: Record<string, PlanFrontmatter>
+): Promise<string> => {
+  for (const [planId, frontmatter] of Object.entries(plans)) {
+    const yaml = Object.entries({ runner: 'mock', ...frontmatter })
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+      .join('\n');
+    await writeFile(
+      join(plansDir, `${planId}.md`),
+      `---\n${yaml}\n---\n# Plan: ${planId}\n`
+    );
+  }
+
+  const stackName = `stack-${Math.random().toString(36).slice(2)}`;
+  await createStack({ stackName, planIds: Object.keys(plans) });
+  return stackName;
+};
+
+const statusesOf = (
+  results: { planId: string; executionStatus: ExecutionStatus }[]
+): Record<string, ExecutionStatus> =>
+  Object.fromEntries(results.map((r) => [r.planId, r.executionStatus]));
+
+/**
+ * Record the order plans start and finish in, and how many ran at once
+ */
+const trackPlans = () => {
+  const events: string[] = [];
+  let running = 0;
+  let maxRunning = 0;
+
+  return {
+    events,
+    getMaxRunning: () => maxRunning,
+    callbacks: {
+      onPlanStart: (planId: string) => {
+        events.push(`start ${planId}`);
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+      },
+      onPlanComplete: (planId: string) => {
+        events.push(`end ${planId}`);
+        running--;
+      },
+    },
+  };
+};
+
+beforeEach(async () => {
+  await rm(plansDir, { recursive: true, force: true });
+  await mkdir(plansDir, { recursive: true });
+  await ensureConfigDir();
+});
+
+afterAll(async () => {
+  await rm(home, { recursive: true, force: true });
+});
+
+describe('executeStack', () => {
+  describe('concurrency', () => {
+    it('runs one plan at a time by default', async () => {
+      const stackName = await createMockStack({
+        a: { mock: { delay: '200ms' } },
+        b: { mock: { delay: '200ms' } },
+      });
+      const tracker = trackPlans();
+
+      const { results } = await executeStack({
+        stackName,
+        callbacks: tracker.callbacks,
+      });
+
+      expect(statusesOf(results)).toEqual({ a: 'completed', b: 'completed' });
+      expect(tracker.getMaxRunning()).toBe(1);
+    });
+
+    it('runs independent plans in parallel up to the limit', async () => {
+      const stackName = await createMockStack({
+        a: { mock: { delay: '300ms' } },
+        b: { mock: { delay: '300ms' } },
+        c: { mock: { delay: '300ms' } },
+      });
+      const tracker = trackPlans();
+
+      const { results } = await executeStack({
+        stackName,
+        concurrency: 2,
+        callbacks: tracker.callbacks,
+      });
+
+      expect(statusesOf(results)).toEqual({
+        a: 'completed',
+        b: 'completed',
+        c: 'completed',
+      });
+      expect(tracker.getMaxRunning()).toBe(2);
+    });
+
+    it('starts a plan only once its dependencies have completed', async () => {
+      const stackName = await createMockStack({
+        setup: { mock: { delay: '200ms' } },
+        api: { references: ['[[setup]]'], mock: { delay: '200ms' } },
+        docs: { references: ['[[setup]]'], mock: { delay: '200ms' } },
+      });
+      const tracker = trackPlans();
+
+      await executeStack({ stackName, concurrency: 3, callbacks: tracker.callbacks });
+
+      const setupEnd = tracker.events.indexOf('end setup');
+      expect(tracker.events.indexOf('start api')).toBeGreaterThan(setupEnd);
+      expect(tracker.events.indexOf('start docs')).toBeGreaterThan(setupEnd);
+      expect(tracker.getMaxRunning()).toBe(2);
+    });
+  });
+
+  describe('failures', () => {
+    it('skips everything downstream of a failed plan and keeps going', async () => {
+      const stackName = await createMockStack({
+        build: { mock: { exitCode: 1 } },
+        test: { references: ['[[build]]'] },
+        deploy: { references: ['[[test]]'] },
+        lint: {},
+      });
+
+      const { results, failFastPlanId } = await executeStack({ stackName });
+
+      expect(statusesOf(results)).toEqual({
+        build: 'failed',
+        test: 'skipped',
+        deploy: 'skipped',
+        lint: 'completed',
+      });
+      expect(failFastPlanId).toBeUndefined();
+    });
+
+    it('stops the run at the first failure with fail-fast', async () => {
+      const stackName = await createMockStack({
+        build: { mock: { exitCode: 1 } },
+        slow: { mock: { delay: '1s' } },
+        after: { references: ['[[slow]]'] },
+      });
+
+      const { results, failFastPlanId } = await executeStack({
+        stackName,
+        concurrency: 2,
+        failurePolicy: 'fail-fast',
+      });
+
+      expect(failFastPlanId).toBe('build');
+      expect(statusesOf(results)).toEqual({
+        build: 'failed',
+        slow: 'interrupted',
+      });
+    });
+
+    it('runs plans whose soft dependency failed', async () => {
+      const stackName = await createMockStack({
+        migrate: { mock: { exitCode: 1 } },
+        report: { softReferences: ['[[migrate]]'] },
+        seed: { references: ['[[migrate]]'] },
+      });
+
+      const { results } = await executeStack({ stackName });
+
+      expect(statusesOf(results)).toEqual({
+        migrate: 'failed',
+        report: 'completed',
+        seed: 'skipped',
+      });
+    });
+  });
+
+  describe('when conditions', () => {
+    it('runs recovery and cleanup plans after a failure', async () => {
+      const stackName = await createMockStack({
+        investigate: { mock: { exitCode: 1 } },
+        deploy: { references: ['[[investigate]]'] },
+        fix: { references: ['[[investigate]]'], when: 'on_failure' },
+        cleanup: { references: ['[[investigate]]'], when: 'always' },
+      });
+
+      const { results } = await executeStack({ stackName });
+
+      expect(statusesOf(results)).toEqual({
+        investigate: 'failed',
+        deploy: 'skipped',
+        fix: 'completed',
+        cleanup: 'completed',
+      });
+    });
+
+    it('skips plans whose condition does not hold', async () => {
+      const stackName = await createMockStack({
+        investigate: {},
+        fix: { references: ['[[investigate]]'], when: 'investigate.failed' },
+        report: { references: ['[[fix]]'] },
+      });
+
+      const { results } = await executeStack({ stackName });
+
+      expect(statusesOf(results)).toEqual({
+        investigate: 'completed',
+        fix: 'skipped',
+        report: 'skipped',
+      });
+      expect(results.find((r) => r.planId === 'fix')?.errorMessage).toBe(
+        "Skipped: condition 'investigate.failed' not met."
+      );
+    });
+
+    it('rejects an invalid condition before anything runs', async () => {
+      const stackName = await createMockStack({
+        investigate: {},
+        fix: { references: ['[[investigate]]'], when: 'setup.failed' },
+      });
+      const tracker = trackPlans();
+
+      await expect(
+        executeStack({ stackName, callbacks: tracker.callbacks })
+      ).rejects.toThrow("Plan 'fix'");
+      expect(tracker.events).toEqual([]);
+    });
+  });
+
+  describe('budgets', () => {
+    it('stops running plans and skips the rest once the duration is used up', async () => {
+      const stackName = await createMockStack({
+        slow: { mock: { delay: '3s' } },
+        next: { references: ['[[slow]]'] },
+      });
+
+      const { results, budgetExhausted } = await executeStack({
+        stackName,
+        maxDurationMs: 1000,
+      });
+
+      expect(budgetExhausted).toBe('duration budget of 1s used up');
+      expect(statusesOf(results)).toEqual({
+        slow: 'interrupted',
+        next: 'skipped',
+      });
+      expect(results.find((r) => r.planId === 'next')?.errorMessage).toBe(
+        'Skipped: duration budget of 1s used up.'
+      );
+    });
+
+    it('reports plans a cost budget cannot see', async () => {
+      const stackName = await createMockStack({ a: {}, b: {} });
+      const onUncostedPlans = vi.fn();
+
+      const { results, budgetExhausted } = await executeStack({
+        stackName,
+        maxCostUsd: 1,
+        callbacks: { onUncostedPlans },
+      });
+
+      expect(onUncostedPlans).toHaveBeenCalledWith(['a', 'b']);
+      expect(budgetExhausted).toBeNull();
+      expect(statusesOf(results)).toEqual({ a: 'completed', b: 'completed' });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseVarAssignments,
+  renderPlanTemplate,
+  resolveTemplateVars,
+  type TemplateContext,
+} from '../../src/core/template.js';
+
+const context: TemplateContext = {
+  stackName: 'release',
+  planId: 'deploy',
+  planTitle: 'Feature: Deploy',
+  vars: { ticket: 'API-142', 'app.name': 'api' },
+  env: { HOME: '/home/me' },
+  dependencyStatuses: { build: 'completed', 'v1.2-tests': 'failed' },
+};
+
+const render = (content: string): string =>
+  renderPlanTemplate({ content, context });
+
+describe('renderPlanTemplate', () => {
+  it('fills in every scope', () => {
+    expect(
+      render(
+        '{{stack.name}} {{plan.id}} {{plan.title}} {{vars.ticket}} {{env.HOME}} {{deps.build.status}}'
+      )
+    ).toBe('release deploy Feature: Deploy API-142 /home/me completed');
+  });
+
+  it('allows whitespace inside the braces', () => {
+    expect(render('{{  vars.ticket }}')).toBe('API-142');
+  });
+
+  it('supports dots in variable names and plan IDs', () => {
+    expect(render('{{vars.app.name}} {{deps.v1.2-tests.status}}')).toBe(
+      'api failed'
+    );
+  });
+
+  it('keeps braces after a backslash', () => {
+    expect(render('\\{{vars.ticket}} and {{vars.ticket}}')).toBe(
+      '{{vars.ticket}} and API-142'
+    );
+  });
+
+  it('leaves braces outside its scopes as written', () => {
+    const content = 'runs-on: ${{ matrix.os }}\n{{#each items}}{{this}}{{/each}}';
+    expect(render(content)).toBe(content);
+  });
+
+  it('lists every undefined variable once', () => {
+    expect(() =>
+      render('{{vars.missing}} {{env.NOPE}} {{vars.missing}} {{deps.other.status}}')
+    ).toThrow(
+      'Undefined template variables: {{vars.missing}}, {{env.NOPE}}, {{deps.other.status}}'
+    );
+  });
+
+  it('treats unknown fields of known scopes as undefined', () => {
+    expect(() => render('{{plan.owner}}')).toThrow(
+      'Undefined template variable: {{plan.owner}}'
+    );
+    expect(() => render('{{deps.build.output}}')).toThrow(
+      'Undefined template variable: {{deps.build.output}}'
+    );
+  });
+
+  it('does not read inherited properties of vars', () => {
+    expect(() => render('{{vars.toString}}')).toThrow(
+      'Undefined template variable: {{vars.toString}}'
+    );
+  });
+});
+
+describe('parseVarAssignments', () => {
+  it('splits on the first =', () => {
+    expect(parseVarAssignments(['ticket=API-142', 'query=a=b', 'empty='])).toEqual({
+      ticket: 'API-142',
+      query: 'a=b',
+      empty: '',
+    });
+  });
+
+  it.each(['ticket', '=value'])("rejects '%s'", (assignment) => {
+    expect(() => parseVarAssignments([assignment])).toThrow(
+      `Invalid variable '${assignment}': expected key=value.`
+    );
+  });
+});
+
+describe('resolveTemplateVars', () => {
+  it('lets command line variables win over the stack setting', () => {
+    expect(
+      resolveTemplateVars({
+        stackVars: { ticket: 'OLD-1', repo: '/src/api' },
+        vars: { ticket: 'API-142' },
+      })
+    ).toEqual({ ticket: 'API-142', repo: '/src/api' });
+  });
+
+  it('converts non-string setting values to strings', () => {
+    expect(
+      resolveTemplateVars({ stackVars: { retries: 3, debug: true, tags: ['a'] } })
+    ).toEqual({ retries: '3', debug: 'true', tags: '["a"]' });
+  });
+});